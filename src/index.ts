@@ -3,16 +3,37 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ServerCapabilities,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { TranslationService } from './services/TranslationService.js';
-import { UpdateTranslationRequest } from './types/index.js';
+import { SaveConflictError } from './services/POFileService.js';
+import { CatalogResourceService } from './services/CatalogResourceService.js';
+import { PromptService } from './services/PromptService.js';
+import { ApproveOptions, CatalogExportOptions, CatalogFilter, CatalogImportOptions, CheckOptions, CompileOptions, EntryLocator, EntryPage, EntryReference, ExtractOptions, FlagUpdateRequest, GlossaryLoadOptions, InconsistencyOptions, InitLocaleOptions, JournalFilter, LanguageComparisonOptions, MachineTranslateOptions, MergeOptions, PageOptions, POFile, PretranslateOptions, PseudolocalizeOptions, RevertResult, SearchOptions, SourceContextOptions, SuggestOptions, UpdateTranslationRequest, XliffExportOptions, XliffImportOptions } from './types/index.js';
+
+// A type alias rather than an interface, so it matches the SDK's open result types
+type ToolResult = {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+};
 
 class TranslatePOMCPServer {
   private server: Server;
   private translationService: TranslationService;
+  private catalogResourceService: CatalogResourceService;
+  private promptService: PromptService;
+  private subscriptions: Set<string> = new Set();
 
   constructor() {
     this.server = new Server({
@@ -21,7 +42,74 @@ class TranslatePOMCPServer {
     });
 
     this.translationService = new TranslationService();
+    this.catalogResourceService = new CatalogResourceService(this.translationService);
+    this.promptService = new PromptService(this.translationService);
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  private setupResourceHandlers(): void {
+    // SDK 0.4.0 infers the capabilities from the registered handlers and
+    // never declares subscribe or listChanged, so clients would not expect
+    // the notifications sent below; add both to what it infers
+    const server = this.server as unknown as { getCapabilities(): ServerCapabilities };
+    const inferCapabilities = server.getCapabilities.bind(this.server);
+    server.getCapabilities = (): ServerCapabilities => ({ ...inferCapabilities(), resources: { subscribe: true, listChanged: true } });
+
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: this.catalogResourceService.listResources() };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.catalogResourceService.listResourceTemplates() };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return { contents: this.catalogResourceService.readResource(request.params.uri) };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // Every save reloads the catalog, so this fires after each update
+    this.translationService.onCatalogChanged((filePath, isNew) => {
+      if (isNew) {
+        this.server.sendResourceListChanged().catch(() => undefined);
+      }
+      const prefix = `${CatalogResourceService.fileUri(filePath)}/`;
+      this.subscriptions.forEach(uri => {
+        if (uri.startsWith(prefix)) {
+          this.server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      });
+    });
+  }
+
+  private setupPromptHandlers(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: this.promptService.listPrompts() };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const prompt = this.promptService.getPrompt(request.params.name, request.params.arguments ?? {});
+      return {
+        description: prompt.description,
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text: prompt.text },
+          },
+        ],
+      };
+    });
   }
 
   private setupToolHandlers(): void {
@@ -42,203 +130,1431 @@ class TranslatePOMCPServer {
               required: ['filePath'],
             },
           },
-
-
           {
-            name: 'get_untranslated_strings',
-            description: 'Get all untranslated strings from loaded files or a specific file',
+            name: 'load_translation_project',
+            description: 'Load all .po files from a directory recursively, detecting each catalog\'s language and domain',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                directory: {
+                  type: 'string',
+                  description: 'Root directory of the locales tree (e.g., "./locales")',
+                },
+                pattern: {
+                  type: 'string',
+                  description: 'Glob pattern relative to the directory (default: "**/*.po")',
+                },
+              },
+              required: ['directory'],
+            },
+          },
+          {
+            name: 'extract_messages',
+            description: 'Scan Python, JavaScript/TypeScript and Jinja sources for gettext calls and write a .pot template (pybabel extract equivalent) that merge_pot and load_po_file can use',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                outputPath: {
+                  type: 'string',
+                  description: 'Path of the .pot file to write (replaced if it exists)',
+                },
+                directory: {
+                  type: 'string',
+                  description: 'Source directory to scan; references are relative to it (default: TRANSLATE_PO_SOURCE_ROOT)',
+                },
+                patterns: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Glob patterns of files to scan (default: .py, .js/.jsx/.mjs/.cjs, .ts/.tsx and .html/.jinja/.jinja2/.j2 files)',
+                },
+                ignore: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Glob patterns to skip (default: node_modules, .git, virtualenvs, __pycache__, dist, build, .d.ts and .min.js files)',
+                },
+                keywords: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Extra keywords in xgettext notation, e.g. "lazy_gettext", "ngettext_lazy:1,2" or "translate:1c,2" (added to _, gettext, ngettext, pgettext and npgettext)',
+                },
+                commentTags: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Comment prefixes copied into the template as extracted comments (default: ["TRANSLATORS:"])',
+                },
+                projectName: {
+                  type: 'string',
+                  description: 'Project name for the Project-Id-Version header',
+                },
+                projectVersion: {
+                  type: 'string',
+                  description: 'Project version for the Project-Id-Version header',
+                },
+              },
+              required: ['outputPath'],
+            },
+          },
+          {
+            name: 'init_locale',
+            description: 'Create a catalog for a new language from a .pot template or an existing .po (pybabel init / msginit equivalent) at <localesDir>/<lang>/LC_MESSAGES/<domain>.po, with Language and CLDR-based Plural-Forms headers, and load it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                templatePath: {
+                  type: 'string',
+                  description: 'Path to the .pot template, or to a .po in another language to copy the msgids from',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Locale of the new catalog, BCP 47 or POSIX (e.g. "de", "pt-BR", "pt_BR", "sr@latin")',
+                },
+                localesDir: {
+                  type: 'string',
+                  description: 'Directory holding the <lang>/LC_MESSAGES folders (default: the locales directory next to the template)',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Gettext domain, used as the file name (default: the template\'s file name)',
+                },
+                outputPath: {
+                  type: 'string',
+                  description: 'Explicit path for the new .po file instead of the LC_MESSAGES layout',
+                },
+                pluralForms: {
+                  type: 'string',
+                  description: 'Plural-Forms header to use instead of the built-in one, e.g. "nplurals=2; plural=(n != 1);"',
+                },
+              },
+              required: ['templatePath', 'locale'],
+            },
+          },
+          {
+            name: 'merge_pot',
+            description: 'Merge a .pot template into .po catalogs (msgmerge equivalent): adds new strings, marks removed ones obsolete and fuzzy-matches changed ones',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                potPath: {
+                  type: 'string',
+                  description: 'Path to the .pot template',
+                },
+                poFiles: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Catalogs to update; loaded automatically if needed. Defaults to loaded catalogs of the template\'s domain',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to select loaded catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to select loaded catalogs (default: template file name)',
+                },
+                fuzzyMatching: {
+                  type: 'boolean',
+                  description: 'Reuse translations of similar removed strings as fuzzy entries (default: true)',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Report what would change without writing files (default: false)',
+                },
+              },
+              required: ['potPath'],
+            },
+          },
+          {
+            name: 'compile_mo',
+            description: 'Compile loaded .po catalogs to binary .mo files (msgfmt equivalent), written next to each .po unless outputPath is given',
             inputSchema: {
               type: 'object',
               properties: {
                 filePath: {
                   type: 'string',
-                  description: 'Optional file path to filter results',
+                  description: 'Optional .po file to compile (default: all loaded files)',
                 },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results to return',
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                outputPath: {
+                  type: 'string',
+                  description: 'Output .mo path; only allowed when a single catalog is selected',
+                },
+                includeFuzzy: {
+                  type: 'boolean',
+                  description: 'Include fuzzy translations like msgfmt --use-fuzzy (default: false)',
                 },
               },
             },
           },
           {
-            name: 'get_fuzzy_translations',
-            description: 'Get all fuzzy translations from loaded files or a specific file',
+            name: 'export_xliff',
+            description: 'Export loaded catalogs to XLIFF 1.2 or 2.0 for translation vendors, written next to each .po as .xlf unless outputPath is given. Context, comments, references, fuzzy state and plural forms are kept',
             inputSchema: {
               type: 'object',
               properties: {
                 filePath: {
                   type: 'string',
-                  description: 'Optional file path to filter results',
+                  description: 'Optional .po file to export (default: all loaded files)',
                 },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results to return',
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                outputPath: {
+                  type: 'string',
+                  description: 'Output .xlf path; only allowed when a single catalog is selected',
+                },
+                version: {
+                  type: 'string',
+                  enum: ['1.2', '2.0'],
+                  description: 'XLIFF version (default: 1.2)',
+                },
+                sourceLanguage: {
+                  type: 'string',
+                  description: 'Language of the msgids (default: en)',
+                },
+                untranslatedOnly: {
+                  type: 'boolean',
+                  description: 'Only export untranslated and fuzzy entries (default: false)',
                 },
               },
             },
           },
           {
-            name: 'update_translation',
-            description: 'Update a single translation',
+            name: 'import_xliff',
+            description: 'Import translations from an XLIFF 1.2 or 2.0 file. Units are matched by msgid and msgctxt; unmatched units and units whose source changed are reported, the rest are validated and saved together like update_multiple_translations. Units needing review are marked fuzzy',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                xliffPath: {
+                  type: 'string',
+                  description: 'Path to the XLIFF file',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Catalog to update (default: the file named in the XLIFF original attribute)',
+                },
+              },
+              required: ['xliffPath'],
+            },
+          },
+          {
+            name: 'export_catalog',
+            description: 'Export loaded catalogs to flat key/value JSON, nested i18next JSON (plural keys with _one/_other suffixes from Plural-Forms) or CSV for reviewers, written next to each .po unless outputPath is given',
             inputSchema: {
               type: 'object',
               properties: {
+                format: {
+                  type: 'string',
+                  enum: ['json', 'i18next', 'csv'],
+                  description: 'Output format',
+                },
                 filePath: {
                   type: 'string',
-                  description: 'Path to the .po file',
+                  description: 'Optional .po file to export (default: all loaded files)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                outputPath: {
+                  type: 'string',
+                  description: 'Output path; only allowed when a single catalog is selected',
+                },
+                includeFuzzy: {
+                  type: 'boolean',
+                  description: 'JSON formats: include fuzzy translations (default: false). CSV always has every entry and a fuzzy column',
+                },
+                includeUntranslated: {
+                  type: 'boolean',
+                  description: 'JSON formats: include untranslated entries as empty strings (default: false)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'i18next: separator that nests keys, e.g. "." (default: "", flat keys; msgids often contain dots)',
+                },
+              },
+              required: ['format'],
+            },
+          },
+          {
+            name: 'import_catalog',
+            description: 'Import translations from flat JSON, i18next JSON or CSV into a catalog. Entries are matched by msgid and msgctxt; unmatched keys and entries whose plural shape changed are reported, the rest are validated and saved together like update_multiple_translations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'Path to the JSON or CSV file',
                 },
+                filePath: {
+                  type: 'string',
+                  description: 'Catalog to update',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['json', 'i18next', 'csv'],
+                  description: 'Input format (default: csv for .csv files, otherwise json)',
+                },
+                fuzzy: {
+                  type: 'boolean',
+                  description: 'Mark imported translations fuzzy (default: the CSV fuzzy column, otherwise false)',
+                },
+                keySeparator: {
+                  type: 'string',
+                  description: 'i18next: separator the keys were nested on (default: "", flat keys)',
+                },
+              },
+              required: ['path', 'filePath'],
+            },
+          },
+          {
+            name: 'load_glossary',
+            description: 'Load a terminology glossary (TBX, CSV or JSON). Its terms are checked on every update and shown with untranslated strings',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'Path to the glossary file (.tbx, .csv or .json)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Target language of the glossary (default: from the file contents or file name, e.g. glossary.de.csv)',
+                },
+                sourceLanguage: {
+                  type: 'string',
+                  description: 'Source language of a TBX glossary (default: en)',
+                },
+              },
+              required: ['path'],
+            },
+          },
+          {
+            name: 'get_glossary_terms',
+            description: 'Return the glossary terms, with their approved translations, that appear in a source string',
+            inputSchema: {
+              type: 'object',
+              properties: {
                 msgid: {
                   type: 'string',
-                  description: 'Original text (message ID)',
+                  description: 'Source text to look up',
                 },
-                msgstr: {
+                language: {
+                  type: 'string',
+                  description: 'Target language code',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Loaded .po file whose language is used when language is omitted',
+                },
+              },
+              required: ['msgid'],
+            },
+          },
+          {
+            name: 'suggest_translations',
+            description: 'Look up a source string in the translation memory built from all loaded catalogs. Returns exact and fuzzy matches with their score and source file',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                msgid: {
                   type: 'string',
-                  description: 'Translation text',
+                  description: 'Source text to find translations for',
                 },
                 msgctxt: {
                   type: 'string',
-                  description: 'Optional message context',
+                  description: 'Optional message context; matches in other contexts score slightly lower',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Optional target .po file; its language selects the memory and its own entry is excluded',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional target language code (default: the language of filePath, otherwise all languages)',
+                },
+                minScore: {
+                  type: 'number',
+                  description: 'Minimum similarity between 0 and 1 (default: 0.6)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of suggestions (default: 5)',
                 },
               },
-              required: ['filePath', 'msgid', 'msgstr'],
+              required: ['msgid'],
             },
           },
           {
-            name: 'update_multiple_translations',
-            description: 'Update multiple translations at once',
+            name: 'pretranslate_from_memory',
+            description: 'Fill untranslated entries with their best translation memory match and mark them fuzzy for review. Matches failing validation are skipped',
             inputSchema: {
               type: 'object',
               properties: {
-                translations: {
-                  type: 'array',
-                  description: 'Array of translation updates',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      filePath: { type: 'string' },
-                      msgid: { type: 'string' },
-                      msgstr: { type: 'string' },
-                      msgctxt: { type: 'string' },
-                    },
-                    required: ['filePath', 'msgid', 'msgstr'],
-                  },
+                filePath: {
+                  type: 'string',
+                  description: 'Optional .po file to pretranslate (default: all loaded files)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                minScore: {
+                  type: 'number',
+                  description: 'Minimum similarity between 0 and 1 (default: 0.8)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of entries to fill',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Report the matches without changing any file (default: false)',
                 },
               },
-              required: ['translations'],
             },
           },
           {
-            name: 'get_translation_stats',
-            description: 'Get translation statistics for all loaded files or a specific file',
+            name: 'machine_translate',
+            description: 'Fill untranslated entries with a machine translation provider and mark them fuzzy for review. Placeholders and tags are protected; results failing validation are skipped',
             inputSchema: {
               type: 'object',
               properties: {
                 filePath: {
                   type: 'string',
-                  description: 'Optional file path to get stats for specific file',
+                  description: 'Optional .po file to translate (default: all loaded files)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                provider: {
+                  type: 'string',
+                  description: 'Provider name: pseudo, http or libretranslate (default: TRANSLATE_PO_MT_PROVIDER, or http when TRANSLATE_PO_MT_URL is set). pseudo is only used when named',
+                },
+                sourceLanguage: {
+                  type: 'string',
+                  description: 'Language of the msgids (default: en)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of entries to translate',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Report the translations without changing any file (default: false)',
+                },
+              },
+            },
+          },
+          {
+            name: 'pseudolocalize',
+            description: 'Fill a catalog with pseudo-translations (accented, padded and bracketed source text) to spot hard-coded strings and truncation in the UI. Placeholders, tags and plural forms are kept. With templatePath, a new catalog is created from a .pot first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Catalog to fill, or to create when templatePath is given',
+                },
+                templatePath: {
+                  type: 'string',
+                  description: 'Optional .pot file to create filePath from',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Language header for a created catalog or one without it (default: en_XA)',
+                },
+                expansion: {
+                  type: 'number',
+                  description: 'Padding added to each string as a fraction of its length (default: 0.3)',
+                },
+                accents: {
+                  type: 'boolean',
+                  description: 'Replace letters with accented ones (default: true)',
+                },
+                markers: {
+                  type: 'boolean',
+                  description: 'Wrap each string in [ ] (default: true)',
+                },
+                overwrite: {
+                  type: 'boolean',
+                  description: 'Replace existing and fuzzy translations too (default: false)',
+                },
+              },
+              required: ['filePath'],
+            },
+          },
+          {
+            name: 'search_translations',
+            description: 'Search loaded files by msgid, msgstr, msgctxt, comments or references. Each hit includes the file and line number',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Text or regular expression to search for',
+                },
+                searchIn: {
+                  type: 'string',
+                  enum: ['msgid', 'msgstr', 'msgctxt', 'comments', 'references', 'both', 'all'],
+                  description: 'Field to search in: "both" is msgid + msgstr, "all" is every field (default: "both")',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Optional file path to restrict the search to',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs (e.g., "fr", "pt_BR")',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs (e.g., "messages")',
+                },
+                caseSensitive: {
+                  type: 'boolean',
+                  description: 'Match case exactly (default: false)',
+                },
+                regex: {
+                  type: 'boolean',
+                  description: 'Treat query as a regular expression (default: false)',
+                },
+                includeUntranslated: {
+                  type: 'boolean',
+                  description: 'Include untranslated entries (default: true)',
+                },
+                includeTranslated: {
+                  type: 'boolean',
+                  description: 'Include translated entries (default: true)',
+                },
+                includeFuzzy: {
+                  type: 'boolean',
+                  description: 'Include fuzzy entries (default: true)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results to return',
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: 'get_untranslated_strings',
+            description: 'Get untranslated strings from loaded files or a specific file. Each entry has an id for the update tools; large lists come in pages (limit, then cursor: nextCursor)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Optional file path to filter results',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs (e.g., "fr", "pt_BR")',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs (e.g., "messages")',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results to return',
+                },
+                offset: {
+                  type: 'number',
+                  description: 'Number of results to skip, counted after cursor if given (default: 0)',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor from the previous page, to continue where it ended',
+                },
+                includeSourceContext: {
+                  type: 'boolean',
+                  description: 'Add the source code around each #: reference (needs TRANSLATE_PO_SOURCE_ROOT; default: false)',
+                },
+                contextLines: {
+                  type: 'number',
+                  description: 'Lines of code before and after each reference (default: 5)',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_entry_context',
+            description: 'Show the source code around an entry\'s #: references, resolved against TRANSLATE_PO_SOURCE_ROOT, to see how the string is used (e.g. whether "Open" is a verb or an adjective)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Entry id from search_translations, get_untranslated_strings or get_fuzzy_translations; replaces filePath, msgid and msgctxt',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Path to the .po file',
+                },
+                msgid: {
+                  type: 'string',
+                  description: 'Message ID of the entry',
+                },
+                msgctxt: {
+                  type: 'string',
+                  description: 'Optional message context to disambiguate entries',
+                },
+                contextLines: {
+                  type: 'number',
+                  description: 'Lines of code before and after each reference (default: 5)',
+                },
+                maxReferences: {
+                  type: 'number',
+                  description: 'Maximum number of references to show (default: 3)',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_fuzzy_translations',
+            description: 'Get fuzzy translations from loaded files or a specific file, in pages like get_untranslated_strings. Entries gettext marked fuzzy after a source change include the previous msgid/msgctxt and a word diff (msgidDiffText: [-removed-] {+added+}) against the current msgid',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Optional file path to filter results',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs (e.g., "fr", "pt_BR")',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs (e.g., "messages")',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results to return',
+                },
+                offset: {
+                  type: 'number',
+                  description: 'Number of results to skip, counted after cursor if given (default: 0)',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor from the previous page, to continue where it ended',
+                },
+              },
+            },
+          },
+          {
+            name: 'update_translation',
+            description: 'Update a single translation',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Entry id from search_translations, get_untranslated_strings or get_fuzzy_translations; replaces filePath, msgid and msgctxt',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Path to the .po file',
+                },
+                msgid: {
+                  type: 'string',
+                  description: 'Original text (message ID)',
+                },
+                msgstr: {
+                  oneOf: [
+                    { type: 'string' },
+                    { type: 'array', items: { type: 'string' } },
+                  ],
+                  description: 'Translation text, or an array with exactly nplurals forms for plural entries',
+                },
+                msgctxt: {
+                  type: 'string',
+                  description: 'Optional message context',
+                },
+                fuzzy: {
+                  type: 'boolean',
+                  description: 'Keep or add the fuzzy flag to mark the translation for review (default: false, which clears it)',
+                },
+                comment: {
+                  type: 'string',
+                  description: 'Optional translator comment explaining the change, written as a "#" line',
+                },
+              },
+              required: ['msgstr'],
+            },
+          },
+          {
+            name: 'update_multiple_translations',
+            description: 'Update multiple translations at once, all or nothing: if any item is not found or fails validation, or a file cannot be saved, nothing is changed. Returns a per-item status',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                translations: {
+                  type: 'array',
+                  description: 'Array of translation updates',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string', description: 'Entry id; replaces filePath, msgid and msgctxt' },
+                      filePath: { type: 'string' },
+                      msgid: { type: 'string' },
+                      msgstr: {
+                        oneOf: [
+                          { type: 'string' },
+                          { type: 'array', items: { type: 'string' } },
+                        ],
+                      },
+                      msgctxt: { type: 'string' },
+                      fuzzy: { type: 'boolean', description: 'Keep or add the fuzzy flag (default: false)' },
+                      comment: { type: 'string', description: 'Translator comment explaining the change' },
+                    },
+                    required: ['msgstr'],
+                  },
+                },
+              },
+              required: ['translations'],
+            },
+          },
+          {
+            name: 'set_flags',
+            description: 'Add or remove flags on an entry, e.g. add fuzzy to ask for review or remove it to approve. Removing fuzzy also drops the previous msgid (#|) lines',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Entry id from search_translations, get_untranslated_strings or get_fuzzy_translations; replaces filePath, msgid and msgctxt',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Path to the .po file',
+                },
+                msgid: {
+                  type: 'string',
+                  description: 'Original text (message ID)',
+                },
+                msgctxt: {
+                  type: 'string',
+                  description: 'Optional message context',
+                },
+                comment: {
+                  type: 'string',
+                  description: 'Optional translator comment explaining the change',
+                },
+                add: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Flags to add, e.g. ["fuzzy"]',
+                },
+                remove: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Flags to remove',
+                },
+              },
+            },
+          },
+          {
+            name: 'approve_fuzzy',
+            description: 'Clear the fuzzy flag on fuzzy entries that are fully translated and pass validation (no error-severity issues)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Optional .po file (default: all loaded files)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of entries to approve',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Report what would be approved without saving (default: false)',
+                },
+              },
+            },
+          },
+          {
+            name: 'reject_translation',
+            description: 'Clear the translation of an entry (and its fuzzy flag) so it is translated again',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Entry id from search_translations, get_untranslated_strings or get_fuzzy_translations; replaces filePath, msgid and msgctxt',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Path to the .po file',
+                },
+                msgid: {
+                  type: 'string',
+                  description: 'Original text (message ID)',
+                },
+                msgctxt: {
+                  type: 'string',
+                  description: 'Optional message context',
+                },
+                comment: {
+                  type: 'string',
+                  description: 'Optional translator comment explaining the change',
+                },
+              },
+            },
+          },
+          {
+            name: 'list_recent_changes',
+            description: 'List recorded translation changes, newest first, with old and new msgstr and flags',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Optional .po file to list changes for',
+                },
+                session: {
+                  type: 'string',
+                  description: 'Optional session id to list changes for (see the current session in the output)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of changes (default: 20)',
+                },
+              },
+            },
+          },
+          {
+            name: 'undo_last_changes',
+            description: 'Undo the most recent saves; all changes saved together (e.g. one update_multiple_translations call) are undone as one',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                count: {
+                  type: 'number',
+                  description: 'Number of saves to undo (default: 1)',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Only undo changes to this .po file',
+                },
+                session: {
+                  type: 'string',
+                  description: 'Only undo changes made in this session',
+                },
+              },
+            },
+          },
+          {
+            name: 'revert_change',
+            description: 'Revert a single recorded change by id. Reverting a revert redoes the original change',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'number',
+                  description: 'Change id from list_recent_changes',
+                },
+              },
+              required: ['id'],
+            },
+          },
+          {
+            name: 'check_translations',
+            description: 'Lint translations for placeholder and markup mismatches, leading/trailing whitespace and newline differences, final punctuation and glossary terms',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Optional file path to check (default: all loaded files)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                checks: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['placeholders', 'markup', 'whitespace', 'newlines', 'punctuation', 'glossary'] },
+                  description: 'Checks to run (default: all enabled by the server policy)',
+                },
+                includeFuzzy: {
+                  type: 'boolean',
+                  description: 'Also check fuzzy entries (default: true)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of entries with issues to return',
+                },
+              },
+            },
+          },
+          {
+            name: 'preview_plural',
+            description: 'Show which plural form the catalog\'s Plural-Forms expression picks for given values of n',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Optional file path (default: all loaded files)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                n: {
+                  oneOf: [
+                    { type: 'number' },
+                    { type: 'array', items: { type: 'number' } },
+                  ],
+                  description: 'Value or values of n to evaluate (default: 0, 1, 2, 5, 11, 21, 101)',
+                },
+                msgid: {
+                  type: 'string',
+                  description: 'Optional plural entry whose translated form to show for each n',
+                },
+                msgctxt: {
+                  type: 'string',
+                  description: 'Optional message context of that entry',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_translation_stats',
+            description: 'Get translation statistics for all loaded files or a specific file',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Optional file path to get stats for specific file',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs (e.g., "fr", "pt_BR")',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs (e.g., "messages")',
+                },
+              },
+            },
+          },
+          {
+            name: 'compare_languages',
+            description: 'Compare loaded catalogs across languages: a matrix of each msgid\'s status (translated, fuzzy, untranslated, absent) per language, with statistics per language',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to compare',
+                },
+                languages: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Languages to compare (default: every loaded language)',
+                },
+                onlyIncomplete: {
+                  type: 'boolean',
+                  description: 'Only list msgids that are not translated in every language (default: true)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of rows (default: 100)',
+                },
+              },
+            },
+          },
+          {
+            name: 'find_inconsistencies',
+            description: 'Find msgid/msgctxt pairs translated differently in different catalogs (e.g. domains) of the same language',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to check (default: all)',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs',
+                },
+                includeFuzzy: {
+                  type: 'boolean',
+                  description: 'Compare fuzzy translations too (default: false)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_file_translations',
+            description: 'Get translations that belong to a specific source file (based on #: references)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sourceFilePath: {
+                  type: 'string',
+                  description: 'Source file path to search for (e.g., "bot/pm/admin.py")',
+                },
+                startLine: {
+                  type: 'number',
+                  description: 'Start line number to filter translations (inclusive)',
+                },
+                endLine: {
+                  type: 'number',
+                  description: 'End line number to filter translations (inclusive)',
+                },
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs (e.g., "fr", "pt_BR")',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs (e.g., "messages")',
+                },
+              },
+              required: ['sourceFilePath'],
+            },
+          },
+          {
+            name: 'get_headers',
+            description: 'Get the header fields of a loaded catalog (Language, Plural-Forms, Last-Translator, ...) with the language, domain and plural count derived from them',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Path to the .po file',
+                },
+              },
+              required: ['filePath'],
+            },
+          },
+          {
+            name: 'set_headers',
+            description: 'Set or remove header fields of a loaded catalog and save it. Content-Type must declare charset=UTF-8, Plural-Forms must be a valid expression and Language a gettext locale such as de, pt_BR or sr@latin',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Path to the .po file',
+                },
+                headers: {
+                  type: 'object',
+                  additionalProperties: { type: ['string', 'null'] },
+                  description: 'Header values by name, e.g. {"Language": "pt_BR", "Plural-Forms": "nplurals=2; plural=(n > 1);"}; null removes a header',
+                },
+              },
+              required: ['filePath', 'headers'],
+            },
+          },
+          {
+            name: 'get_loaded_files',
+            description: 'Get list of currently loaded .po files with their language and domain',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                language: {
+                  type: 'string',
+                  description: 'Optional language code to filter catalogs (e.g., "fr", "pt_BR")',
+                },
+                domain: {
+                  type: 'string',
+                  description: 'Optional gettext domain to filter catalogs (e.g., "messages")',
+                },
+              },
+            },
+          },
+
+        ] as Tool[],
+      };
+    });
+
+    const callTool = async (request: CallToolRequest): Promise<ToolResult> => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        switch (name) {
+          case 'load_po_file': {
+            const { filePath } = args as { filePath: string };
+            const result = await this.translationService.loadSingleFile(filePath);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Successfully loaded PO file: ${filePath}\nEntries: ${result.entries.length}\nHeaders: ${JSON.stringify(result.headers, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'load_translation_project': {
+            const { directory, pattern } = args as { directory: string; pattern?: string };
+            const result = await this.translationService.loadTranslationProject(directory, pattern);
+            const loadedText = result.loaded.map(file => this.describeCatalog(file)).join('\n');
+            const failedText = result.failed.length > 0
+              ? `\nFailed to load ${result.failed.length} files:\n${result.failed.map(failure => `${failure.path}: ${failure.error}`).join('\n')}`
+              : '';
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Loaded ${result.loaded.length} PO files from ${directory}:\n${loadedText}${failedText}`,
+                },
+              ],
+              isError: result.loaded.length === 0,
+            };
+          }
+
+          case 'extract_messages': {
+            const report = await this.translationService.extractMessages(args as unknown as ExtractOptions);
+            const warnings = report.warnings.map(warning => `${warning.reference}: ${warning.message}`).join('\n');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Extracted ${report.messages} messages from ${report.files} files into ${report.output}` +
+                    (report.warnings.length > 0 ? `\n${report.warnings.length} warnings:\n${warnings}` : ''),
+                },
+              ],
+            };
+          }
+
+          case 'init_locale': {
+            const report = await this.translationService.initLocale(args as unknown as InitLocaleOptions);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Created ${report.file} (${report.language}, ${report.entries} entries to translate, ${report.pluralForms})`,
+                },
+              ],
+            };
+          }
+
+          case 'merge_pot': {
+            const options = args as unknown as MergeOptions;
+            const reports = await this.translationService.mergePot(options);
+            const summary = reports
+              .map(report => `${report.file}: ${report.added.length} added, ${report.fuzzyMatched.length} fuzzy, ${report.obsoleted.length} obsoleted, ${report.resurrected.length} resurrected, ${report.removed.length} removed, ${report.unchanged} unchanged`)
+              .join('\n');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${options.dryRun ? 'Dry run: would merge' : 'Merged'} ${options.potPath} into ${reports.length} catalogs:\n${summary}\n${JSON.stringify(reports, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'compile_mo': {
+            const reports = await this.translationService.compileMO((args ?? {}) as CompileOptions);
+            const summary = reports
+              .map(report => `${report.output}: ${report.messages} messages (skipped ${report.skippedFuzzy} fuzzy, ${report.skippedUntranslated} untranslated, ${report.skippedObsolete} obsolete)`)
+              .join('\n');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Compiled ${reports.length} MO files:\n${summary}`,
                 },
-              },
-            },
-          },
-          {
-            name: 'get_file_translations',
-            description: 'Get translations that belong to a specific source file (based on #: references)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                sourceFilePath: {
-                  type: 'string',
-                  description: 'Source file path to search for (e.g., "bot/pm/admin.py")',
+              ],
+            };
+          }
+
+          case 'export_xliff': {
+            const reports = await this.translationService.exportXliff((args ?? {}) as XliffExportOptions);
+            const summary = reports.map(report => `${report.output}: ${report.units} units`).join('\n');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Exported ${reports.length} XLIFF ${reports[0]?.version ?? ''} files:\n${summary}`,
                 },
-                startLine: {
-                  type: 'number',
-                  description: 'Start line number to filter translations (inclusive)',
+              ],
+            };
+          }
+
+          case 'import_xliff': {
+            const result = await this.translationService.importXliff(args as unknown as XliffImportOptions);
+            const summary = `${result.committed ? `Imported ${result.updated} translations into` : 'Nothing imported into'} ${result.file}` +
+              ` (${result.unchanged} unchanged, ${result.untranslated} untranslated, ${result.unmatched.length} unmatched, ${result.changed.length} changed)`;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${summary}:\n${JSON.stringify(result, null, 2)}`,
                 },
-                endLine: {
-                  type: 'number',
-                  description: 'End line number to filter translations (inclusive)',
+              ],
+              isError: !result.committed,
+            };
+          }
+
+          case 'export_catalog': {
+            const reports = await this.translationService.exportCatalog(args as unknown as CatalogExportOptions);
+            const summary = reports.map(report => `${report.output}: ${report.entries} entries`).join('\n');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Exported ${reports.length} ${reports[0]?.format ?? ''} files:\n${summary}`,
                 },
-              },
-              required: ['sourceFilePath'],
-            },
-          },
-          {
-            name: 'get_loaded_files',
-            description: 'Get list of currently loaded .po files',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
+              ],
+            };
+          }
 
-        ] as Tool[],
-      };
-    });
+          case 'import_catalog': {
+            const result = await this.translationService.importCatalog(args as unknown as CatalogImportOptions);
+            const summary = `${result.committed ? `Imported ${result.updated} translations into` : 'Nothing imported into'} ${result.file}` +
+              ` (${result.unchanged} unchanged, ${result.untranslated} untranslated, ${result.unmatched.length} unmatched, ${result.changed.length} changed)`;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${summary}:\n${JSON.stringify(result, null, 2)}`,
+                },
+              ],
+              isError: !result.committed,
+            };
+          }
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+          case 'load_glossary': {
+            const result = await this.translationService.loadGlossary(args as unknown as GlossaryLoadOptions);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Loaded ${result.terms} glossary terms from ${result.path} (languages: ${result.languages.join(', ') || 'none'})`,
+                },
+              ],
+            };
+          }
 
-      try {
-        switch (name) {
-          case 'load_po_file': {
-            const { filePath } = args as { filePath: string };
-            const result = await this.translationService.loadSingleFile(filePath);
+          case 'get_glossary_terms': {
+            const { msgid, ...filter } = args as unknown as CatalogFilter & { msgid: string };
+            const terms = this.translationService.getGlossaryTerms(msgid, filter);
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Successfully loaded PO file: ${filePath}\nEntries: ${result.entries.length}\nHeaders: ${JSON.stringify(result.headers, null, 2)}`,
+                  text: terms.length === 0
+                    ? `No glossary terms found in "${msgid}"`
+                    : `Found ${terms.length} glossary terms in "${msgid}":\n${JSON.stringify(terms, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'suggest_translations': {
+            const options = args as unknown as SuggestOptions;
+            const suggestions = await this.translationService.suggestTranslations(options);
+            const exact = suggestions.filter(suggestion => suggestion.exact).length;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: suggestions.length === 0
+                    ? `No translation memory matches for "${options.msgid}"`
+                    : `Found ${suggestions.length} suggestions for "${options.msgid}" (${exact} exact):\n${JSON.stringify(suggestions, null, 2)}`,
                 },
               ],
             };
           }
 
+          case 'pretranslate_from_memory': {
+            const options = (args ?? {}) as PretranslateOptions;
+            const reports = await this.translationService.pretranslateFromMemory(options);
+            const files = new Set(reports.map(report => report.file)).size;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${options.dryRun ? 'Dry run: would pretranslate' : 'Pretranslated'} ${reports.length} entries in ${files} files${options.dryRun ? '' : ' (marked fuzzy)'}:\n${JSON.stringify(reports, null, 2)}`,
+                },
+              ],
+            };
+          }
 
+          case 'machine_translate': {
+            const options = (args ?? {}) as MachineTranslateOptions;
+            const report = await this.translationService.machineTranslate(options);
+            const skippedText = report.skipped.length > 0 ? `, skipped ${report.skipped.length}` : '';
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${options.dryRun ? 'Dry run: would translate' : 'Translated'} ${report.translated.length} entries with ${report.provider}${options.dryRun ? '' : ' (marked fuzzy)'}${skippedText}:\n${JSON.stringify(report, null, 2)}`,
+                },
+              ],
+            };
+          }
 
+          case 'pseudolocalize': {
+            const options = args as unknown as PseudolocalizeOptions;
+            const report = await this.translationService.pseudolocalize(options);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${report.created ? 'Created' : 'Filled'} ${report.file}${report.language ? ` (${report.language})` : ''} with ${report.filled} pseudo-translations`,
+                },
+              ],
+            };
+          }
 
+          case 'search_translations': {
+            const options = { searchIn: 'both', ...args } as SearchOptions;
+            const results = this.translationService.searchTranslations(options);
+            const hits = results.map(result => ({
+              id: result.id,
+              file: result.file,
+              line: result.lineNumber,
+              matchedIn: result.matchedIn,
+              entry: result.entry,
+            }));
+            const totalText = options.limit !== undefined ? ` (limited to ${options.limit})` : '';
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Found ${results.length} matches for "${options.query}"${totalText}:\n${JSON.stringify(hits, null, 2)}`,
+                },
+              ],
+            };
+          }
 
           case 'get_untranslated_strings': {
-            const { filePath, limit } = args as { filePath?: string; limit?: number };
-            const limitOptions = limit !== undefined ? { limit } : undefined;
-            const results = this.translationService.getUntranslatedStrings(filePath, limitOptions);
-            const totalText = limit !== undefined ? ` (showing ${results.length}, limited to ${limit})` : '';
+            const { limit, offset, cursor, includeSourceContext, contextLines, ...filter } = (args ?? {}) as CatalogFilter & PageOptions & { includeSourceContext?: boolean; contextLines?: number };
+            const page = this.translationService.getUntranslatedStrings(filter, this.pageOptions({ limit, offset, cursor }));
+            let results = page.entries;
+            if (includeSourceContext) {
+              results = await this.translationService.addSourceContext(results, contextLines !== undefined ? { contextLines } : {});
+            }
+            const incomplete = results.filter(entry => entry.missingPluralForms !== undefined).length;
+            const totalText = this.describePage(page)
+              + (incomplete > 0 ? `, ${incomplete} with incomplete plural forms (see missingPluralForms)` : '');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Found ${page.total} untranslated strings${totalText}:\n${JSON.stringify(results, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'get_entry_context': {
+            const { contextLines, maxReferences, ...locator } = args as unknown as EntryLocator & SourceContextOptions;
+            const request = this.translationService.resolveEntryReference(locator);
+            const context = await this.translationService.getEntryContext(request, {
+              ...(contextLines !== undefined && { contextLines }),
+              ...(maxReferences !== undefined && { maxReferences })
+            });
+            const shown = context.snippets.filter(snippet => snippet.code !== undefined).length;
+            const references = context.entry.references?.length ?? 0;
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Found ${results.length} untranslated strings${totalText}:\n${JSON.stringify(results, null, 2)}`,
+                  text: references === 0
+                    ? `"${request.msgid}" has no #: references.`
+                    : `Source context for "${request.msgid}" (${shown} of ${references} references shown):\n${JSON.stringify(context, null, 2)}`,
                 },
               ],
             };
           }
 
           case 'get_fuzzy_translations': {
-            const { filePath, limit } = args as { filePath?: string; limit?: number };
-            const limitOptions = limit !== undefined ? { limit } : undefined;
-            const results = this.translationService.getFuzzyTranslations(filePath, limitOptions);
-            const totalText = limit !== undefined ? ` (showing ${results.length}, limited to ${limit})` : '';
+            const { limit, offset, cursor, ...filter } = (args ?? {}) as CatalogFilter & PageOptions;
+            const page = this.translationService.getFuzzyTranslations(filter, this.pageOptions({ limit, offset, cursor }));
+            const changed = page.entries.filter(entry => entry.msgidDiffText !== undefined).length;
+            const totalText = this.describePage(page)
+              + (changed > 0 ? `, ${changed} with a source change diff (see msgidDiffText)` : '');
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Found ${results.length} fuzzy translations${totalText}:\n${JSON.stringify(results, null, 2)}`,
+                  text: `Found ${page.total} fuzzy translations${totalText}:\n${JSON.stringify(page.entries, null, 2)}`,
                 },
               ],
             };
           }
 
           case 'update_translation': {
-            const request = args as unknown as UpdateTranslationRequest;
+            const locator = args as unknown as Omit<UpdateTranslationRequest, keyof EntryReference> & EntryLocator;
+            const label = locator.msgid ?? locator.id;
             try {
-              const success = await this.translationService.updateTranslation(request);
+              const request: UpdateTranslationRequest = {
+                ...this.translationService.resolveEntryReference(locator),
+                msgstr: locator.msgstr,
+                ...(locator.fuzzy !== undefined && { fuzzy: locator.fuzzy }),
+                ...(locator.comment !== undefined && { comment: locator.comment })
+              };
+              const result = await this.translationService.updateTranslation(request);
+              const warningText = result.warnings.length > 0
+                ? `\nWarnings:\n${result.warnings.map(issue => `- [${issue.check}] ${issue.message}`).join('\n')}`
+                : '';
               return {
                 content: [
                   {
                     type: 'text',
-                    text: success 
-                      ? `Successfully updated translation for "${request.msgid}" in ${request.filePath}`
-                      : `Failed to update translation for "${request.msgid}" - entry not found`,
+                    text: result.updated 
+                      ? `Successfully updated translation for "${request.msgid}" in ${request.filePath}${warningText}`
+                      : `Failed to update translation for "${label}" - entry not found`,
                   },
                 ],
               };
@@ -247,7 +1563,7 @@ class TranslatePOMCPServer {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to update translation for "${request.msgid}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+                    text: `Failed to update translation for "${label}": ${error instanceof Error ? error.message : 'Unknown error'}`,
                   },
                 ],
                 isError: true,
@@ -256,44 +1572,190 @@ class TranslatePOMCPServer {
           }
 
           case 'update_multiple_translations': {
-            const { translations } = args as { translations: UpdateTranslationRequest[] };
+            const { translations } = args as { translations: (Omit<UpdateTranslationRequest, keyof EntryReference> & EntryLocator)[] };
             const result = await this.translationService.updateMultipleTranslations(translations);
-            const totalRequested = translations.length;
-            const statusText = result.failed > 0 
-              ? `Updated ${result.success}/${totalRequested} translations successfully, ${result.failed} failed`
-              : `Successfully updated all ${result.success} translations`;
-            
+            const counts = new Map<string, number>();
+            result.results.forEach(item => counts.set(item.status, (counts.get(item.status) ?? 0) + 1));
+            const statusText = result.committed
+              ? `Successfully updated all ${result.updated} translations`
+              : `No translations were updated (${Array.from(counts, ([status, count]) => `${count} ${status.replace('_', ' ')}`).join(', ')})`;
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${statusText}:\n${JSON.stringify(result.results, null, 2)}`,
+                },
+              ],
+              isError: !result.committed,
+            };
+          }
+
+          case 'set_flags': {
+            const locator = args as unknown as Omit<FlagUpdateRequest, keyof EntryReference> & EntryLocator;
+            const request: FlagUpdateRequest = {
+              ...this.translationService.resolveEntryReference(locator),
+              ...(locator.add !== undefined && { add: locator.add }),
+              ...(locator.remove !== undefined && { remove: locator.remove }),
+              ...(locator.comment !== undefined && { comment: locator.comment })
+            };
+            const entry = await this.translationService.setFlags(request);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Updated flags for "${request.msgid}" in ${request.filePath}:\n${JSON.stringify(entry, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'approve_fuzzy': {
+            const options = (args ?? {}) as ApproveOptions;
+            const report = await this.translationService.approveFuzzy(options);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `${options.dryRun ? 'Dry run: would approve' : 'Approved'} ${report.approved.length} fuzzy translations, skipped ${report.skipped.length}:\n${JSON.stringify(report, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'reject_translation': {
+            const { comment, ...locator } = args as unknown as EntryLocator & { comment?: string };
+            const reference = this.translationService.resolveEntryReference(locator);
+            await this.translationService.rejectTranslation(reference, comment);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Cleared translation for "${reference.msgid}" in ${reference.filePath}`,
+                },
+              ],
+            };
+          }
+
+          case 'list_recent_changes': {
+            const filter = (args ?? {}) as JournalFilter;
+            const changes = await this.translationService.listRecentChanges(filter);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Found ${changes.length} recorded changes (current session: ${this.translationService.getSession()}):\n${JSON.stringify(changes, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'undo_last_changes': {
+            const { count, ...filter } = (args ?? {}) as Omit<JournalFilter, 'limit'> & { count?: number };
+            const result = await this.translationService.undoLastChanges(count, filter);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: this.formatRevertResult(result),
+                },
+              ],
+            };
+          }
+
+          case 'revert_change': {
+            const { id } = args as { id: number };
+            const result = await this.translationService.revertChange(id);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: this.formatRevertResult(result),
+                },
+              ],
+              isError: result.reverted.length === 0,
+            };
+          }
+
+          case 'check_translations': {
+            const results = this.translationService.checkTranslations((args ?? {}) as CheckOptions);
+            const errorCount = results.filter(result => result.issues.some(issue => issue.severity === 'error')).length;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: results.length === 0
+                    ? 'No issues found.'
+                    : `Found issues in ${results.length} entries (${errorCount} with errors):\n${JSON.stringify(results, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'preview_plural': {
+            const { n, msgid, msgctxt, ...filter } = (args ?? {}) as CatalogFilter & { n?: number | number[]; msgid?: string; msgctxt?: string };
+            const values = n === undefined ? [0, 1, 2, 5, 11, 21, 101] : Array.isArray(n) ? n : [n];
+            const previews = this.translationService.previewPlural(filter, values, msgid, msgctxt);
             return {
               content: [
                 {
                   type: 'text',
-                  text: statusText,
+                  text: `Plural form selection:\n${JSON.stringify(previews, null, 2)}`,
                 },
               ],
-              isError: result.failed > 0,
             };
           }
 
           case 'get_translation_stats': {
-            const { filePath } = args as { filePath?: string };
-            const stats = this.translationService.getTranslationStats(filePath);
+            const filter = (args ?? {}) as CatalogFilter;
+            const stats = this.translationService.getTranslationStats(filter);
+            const scope = [filter.filePath, filter.language && `language ${filter.language}`, filter.domain && `domain ${filter.domain}`]
+              .filter(Boolean)
+              .join(', ');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Translation statistics${scope ? ` for ${scope}` : ' (all files)'}:\n${JSON.stringify(stats, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'compare_languages': {
+            const comparison = this.translationService.compareLanguages((args ?? {}) as LanguageComparisonOptions);
+            const shown = comparison.rows.length < comparison.totalRows ? ` (showing ${comparison.rows.length})` : '';
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Compared ${comparison.languages.join(', ')}: ${comparison.totalRows} msgids${shown}:\n${JSON.stringify(comparison, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'find_inconsistencies': {
+            const inconsistencies = this.translationService.findInconsistencies((args ?? {}) as InconsistencyOptions);
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Translation statistics${filePath ? ` for ${filePath}` : ' (all files)'}:\n${JSON.stringify(stats, null, 2)}`,
+                  text: inconsistencies.length === 0
+                    ? 'No inconsistent translations found.'
+                    : `Found ${inconsistencies.length} msgids with diverging translations:\n${JSON.stringify(inconsistencies, null, 2)}`,
                 },
               ],
             };
           }
 
           case 'get_file_translations': {
-            const { sourceFilePath, startLine, endLine } = args as { sourceFilePath: string; startLine?: number; endLine?: number };
+            const { sourceFilePath, startLine, endLine, ...filter } = args as unknown as CatalogFilter & { sourceFilePath: string; startLine?: number; endLine?: number };
             const options = (startLine !== undefined || endLine !== undefined) ? {
               ...(startLine !== undefined && { startLine }),
               ...(endLine !== undefined && { endLine })
             } : undefined;
-            const translations = this.translationService.getTranslationsForFile(sourceFilePath, options);
+            const translations = this.translationService.getTranslationsForFile(sourceFilePath, options, filter);
             const lineRangeText = startLine !== undefined || endLine !== undefined 
               ? ` (lines ${startLine || 1}-${endLine || '∞'})`
               : '';
@@ -307,9 +1769,35 @@ class TranslatePOMCPServer {
             };
           }
 
+          case 'get_headers': {
+            const { filePath } = args as { filePath: string };
+            const headers = this.translationService.getHeaders(filePath);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Headers of ${headers.file}:\n${JSON.stringify(headers, null, 2)}`,
+                },
+              ],
+            };
+          }
+
+          case 'set_headers': {
+            const { filePath, headers } = args as { filePath: string; headers: Record<string, string | null> };
+            const changes = Object.fromEntries(Object.entries(headers ?? {}).map(([key, value]) => [key, value ?? undefined]));
+            const result = await this.translationService.setHeaders(filePath, changes);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Updated ${Object.keys(changes).length} headers in ${result.file}:\n${JSON.stringify(result, null, 2)}`,
+                },
+              ],
+            };
+          }
+
           case 'get_loaded_files': {
-            const files = this.translationService.getLoadedFiles();
-            if (files.length === 0) {
+            if (this.translationService.getLoadedFiles().length === 0) {
               return {
                 content: [
                   {
@@ -319,11 +1807,12 @@ class TranslatePOMCPServer {
                 ],
               };
             }
+            const files = this.translationService.getLoadedPOFiles((args ?? {}) as CatalogFilter);
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Loaded files (${files.length}):\n${files.join('\n')}`,
+                  text: `Loaded files (${files.length}):\n${files.map(file => this.describeCatalog(file)).join('\n')}`,
                 },
               ],
             };
@@ -345,16 +1834,49 @@ class TranslatePOMCPServer {
           content: [
             {
               type: 'text',
-              text: `Error executing tool ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: `Error executing tool ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+                + (error instanceof SaveConflictError ? `\nConflicts:\n${JSON.stringify(error.conflicts, null, 2)}` : ''),
             },
           ],
           isError: true,
         };
       }
+    };
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const result = await callTool(request);
+      const warnings = this.translationService.takeWarnings();
+      if (warnings.length === 0) return result;
+      return { ...result, content: [...result.content, { type: 'text', text: `Warnings:\n${warnings.map(warning => `- ${warning}`).join('\n')}` }] };
     });
   }
 
+  private pageOptions({ limit, offset, cursor }: { limit: number | undefined; offset: number | undefined; cursor: string | undefined }): PageOptions {
+    return {
+      ...(limit !== undefined && { limit }),
+      ...(offset !== undefined && { offset }),
+      ...(cursor !== undefined && { cursor })
+    };
+  }
+
+  private describeCatalog(file: POFile): string {
+    return `${file.path} [language: ${file.language ?? 'unknown'}, domain: ${file.domain ?? 'unknown'}, entries: ${file.entries.length}]`;
+  }
+
+  private describePage(page: EntryPage<unknown>): string {
+    if (page.entries.length === page.total) return '';
+    return ` (showing ${page.entries.length}` + (page.nextCursor !== undefined ? `; pass cursor "${page.nextCursor}" for the next page)` : ', last page)');
+  }
+
+  private formatRevertResult(result: RevertResult): string {
+    const skipped = result.skipped.length > 0
+      ? `\nSkipped:\n${result.skipped.map(({ change, reason }) => `- #${change.id} "${change.msgid}" in ${change.file}: ${reason}`).join('\n')}`
+      : '';
+    return `Reverted ${result.reverted.length} changes:\n${JSON.stringify(result.reverted, null, 2)}${skipped}`;
+  }
+
   public async run(): Promise<void> {
+    await this.translationService.loadConfiguredGlossaries();
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
   }
@@ -0,0 +1,33 @@
+import { TranslationProvider } from '../types/index.js';
+
+/**
+ * Generic JSON-over-HTTP backend. POSTs {"texts": [...], "source": "en",
+ * "target": "de"} to the configured URL and expects {"translations": [...]}
+ * (or a bare array) back, one string per input text.
+ */
+export class HttpTranslationProvider implements TranslationProvider {
+  public readonly name = 'http';
+
+  constructor(private url: string, private apiKey?: string, public readonly maxBatchSize: number = 25) {}
+
+  public async translate(texts: string[], sourceLanguage: string, targetLanguage: string): Promise<string[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey !== undefined && { Authorization: `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify({ texts, source: sourceLanguage, target: targetLanguage })
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP translation request failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const data = await response.json() as unknown;
+    const translations = Array.isArray(data) ? data : (data as { translations?: unknown }).translations;
+    if (!Array.isArray(translations) || translations.length !== texts.length || !translations.every(item => typeof item === 'string')) {
+      throw new Error(`HTTP translation response must contain ${texts.length} translations as a string array`);
+    }
+    return translations;
+  }
+}
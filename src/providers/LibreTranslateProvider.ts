@@ -0,0 +1,40 @@
+import { TranslationProvider } from '../types/index.js';
+
+/**
+ * LibreTranslate (and compatible) /translate API. Language codes are
+ * reduced to the base language (pt_BR -> pt), which is what it expects.
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  public readonly name = 'libretranslate';
+  public readonly maxBatchSize = 50;
+
+  constructor(private url: string, private apiKey?: string) {}
+
+  public async translate(texts: string[], sourceLanguage: string, targetLanguage: string): Promise<string[]> {
+    const response = await fetch(`${this.url.replace(/\/+$/, '')}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q: texts,
+        source: this.baseLanguage(sourceLanguage),
+        target: this.baseLanguage(targetLanguage),
+        format: 'text',
+        ...(this.apiKey !== undefined && { api_key: this.apiKey })
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`LibreTranslate request failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const data = await response.json() as { translatedText?: unknown };
+    const translations = data.translatedText;
+    if (!Array.isArray(translations) || translations.length !== texts.length) {
+      throw new Error(`LibreTranslate returned an unexpected response for ${texts.length} texts`);
+    }
+    return translations.map(String);
+  }
+
+  private baseLanguage(language: string): string {
+    return language.split(/[_-]/)[0]!.toLowerCase();
+  }
+}
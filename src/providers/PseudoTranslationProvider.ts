@@ -0,0 +1,13 @@
+import { TranslationProvider } from '../types/index.js';
+
+/**
+ * Offline provider for tests and dry runs: prefixes every text with the
+ * target language, e.g. "[de] Save file". Deterministic and never fails.
+ */
+export class PseudoTranslationProvider implements TranslationProvider {
+  public readonly name = 'pseudo';
+
+  public async translate(texts: string[], _sourceLanguage: string, targetLanguage: string): Promise<string[]> {
+    return texts.map(text => `[${targetLanguage}] ${text}`);
+  }
+}
@@ -0,0 +1,327 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { POFileService } from './POFileService.js';
+import {
+  POFile,
+  TranslationEntry,
+  CatalogUnit,
+  CatalogFormat,
+  CatalogExportOptions,
+  CatalogExportReport,
+  CatalogImportOptions,
+  ImportedEntry
+} from '../types/index.js';
+import { parseCSV, formatCSV } from '../utils/csv.js';
+import { pluralCategories } from '../utils/pluralForms.js';
+
+// gettext's context separator, as used by po2json and Jed for flat JSON keys
+const CONTEXT_SEPARATOR = '\u0004';
+
+type JSONObject = { [key: string]: unknown };
+
+/**
+ * Converts loaded catalogs to flat key/value JSON, nested i18next JSON and
+ * CSV, and reads those files back as units for import.
+ *
+ * Flat JSON keys are msgids ("context\u0004msgid" with a context), plural
+ * values are arrays of forms. i18next keys are msgids with "_context" and
+ * CLDR plural suffixes ("_one", "_other"). They are flat by default, since
+ * msgids are sentences whose dots are not paths; with a keySeparator they
+ * are nested on it.
+ */
+export class CatalogConversionService {
+  constructor(private poFileService: POFileService) {}
+
+  public async export(options: CatalogExportOptions): Promise<CatalogExportReport[]> {
+    const { format, outputPath, ...filter } = options;
+    const files = this.poFileService.resolveFiles({
+      ...(filter.filePath !== undefined && { filePath: filter.filePath }),
+      ...(filter.language !== undefined && { language: filter.language }),
+      ...(filter.domain !== undefined && { domain: filter.domain })
+    });
+    if (files.length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+    if (outputPath && files.length > 1) {
+      throw new Error(`outputPath can only be used with a single catalog, but ${files.length} are selected. Pass filePath to pick one.`);
+    }
+
+    const reports: CatalogExportReport[] = [];
+    for (const poFile of files) {
+      const output = outputPath ? path.resolve(outputPath) : this.defaultOutputPath(poFile, format);
+      const entries = poFile.entries.filter(entry => !entry.obsolete && entry.msgid !== '');
+      let content: string;
+      let count: number;
+      if (format === 'csv') {
+        content = this.formatCSV(poFile, entries);
+        count = entries.length;
+      } else {
+        const exported = entries.filter(entry => this.shouldExport(entry, options));
+        const data = format === 'i18next'
+          ? this.toI18next(poFile, exported, options.keySeparator ?? '')
+          : Object.fromEntries(exported.map(entry => [this.flatKey(entry), this.forms(entry, poFile.nplurals ?? 2, true)]));
+        content = `${JSON.stringify(data, null, 2)}\n`;
+        count = exported.length;
+      }
+
+      try {
+        await fs.mkdir(path.dirname(output), { recursive: true });
+        await fs.writeFile(output, content, 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to write ${format} file ${output}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      reports.push({ source: poFile.path, output, format, entries: count });
+    }
+    return reports;
+  }
+
+  /**
+   * Reads an exchange file into units for the given catalog. JSON keys are
+   * looked up by the key each entry exports to; keys matching no entry are
+   * returned as unmatched, values of the wrong shape (a string for a plural
+   * entry or the other way round) as changed.
+   */
+  public async read(poFile: POFile, options: CatalogImportOptions): Promise<{ units: CatalogUnit[]; unmatched: ImportedEntry[]; changed: ImportedEntry[] }> {
+    const format = options.format ?? (path.extname(options.path).toLowerCase() === '.csv' ? 'csv' : 'json');
+    let content: string;
+    try {
+      content = await fs.readFile(path.resolve(options.path), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`File not found: ${options.path}.`);
+      }
+      throw error;
+    }
+
+    if (format === 'csv') {
+      return { units: this.parseCSV(content, options.path), unmatched: [], changed: [] };
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid JSON file ${options.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error(`Invalid JSON file ${options.path}: expected an object of translations`);
+    }
+    return format === 'i18next'
+      ? this.fromI18next(poFile, data as JSONObject, options.keySeparator ?? '')
+      : this.fromFlatJSON(poFile, data as JSONObject);
+  }
+
+  private shouldExport(entry: TranslationEntry, options: CatalogExportOptions): boolean {
+    const forms = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+    if (forms.every(form => form === '')) return options.includeUntranslated ?? false;
+    return !this.isFuzzy(entry) || (options.includeFuzzy ?? false);
+  }
+
+  private fromFlatJSON(poFile: POFile, data: JSONObject): { units: CatalogUnit[]; unmatched: ImportedEntry[]; changed: ImportedEntry[] } {
+    const units: CatalogUnit[] = [];
+    const changed: ImportedEntry[] = [];
+    const consumed = new Set<string>();
+
+    for (const entry of poFile.entries) {
+      const key = this.flatKey(entry);
+      if (entry.obsolete || !Object.prototype.hasOwnProperty.call(data, key)) continue;
+      consumed.add(key);
+      const value = data[key];
+      const plural = entry.msgid_plural !== undefined;
+      if (plural ? !Array.isArray(value) : typeof value !== 'string') {
+        changed.push({ ...this.reference(entry), reason: plural ? 'expected an array of plural forms' : 'expected a string' });
+        continue;
+      }
+      units.push(this.toUnit(entry, Array.isArray(value) ? value.map((form: unknown) => typeof form === 'string' ? form : '') : [value as string]));
+    }
+
+    const unmatched = Object.keys(data).filter(key => !consumed.has(key)).map(key => {
+      const [context, msgid] = key.includes(CONTEXT_SEPARATOR) ? key.split(CONTEXT_SEPARATOR, 2) : [undefined, key];
+      return { msgid: msgid!, ...(context !== undefined && { msgctxt: context }) };
+    });
+    return { units, unmatched, changed };
+  }
+
+  private toI18next(poFile: POFile, entries: TranslationEntry[], keySeparator: string): JSONObject {
+    const suffixes = this.pluralSuffixes(poFile);
+    const flat: [string, string][] = entries.flatMap(entry => {
+      const forms = this.forms(entry, poFile.nplurals ?? 2, false) as string[];
+      const key = this.i18nextKey(entry);
+      return entry.msgid_plural === undefined
+        ? [[key, forms[0]!] as [string, string]]
+        : forms.map((form, index) => [`${key}_${suffixes[index]}`, form] as [string, string]);
+    });
+    if (keySeparator === '') return Object.fromEntries(flat);
+
+    const root: JSONObject = {};
+    for (const [key, value] of flat) {
+      const parts = key.split(keySeparator);
+      let node = root;
+      parts.forEach((part, index) => {
+        const existing = node[part];
+        const last = index === parts.length - 1;
+        if (existing !== undefined && (last || typeof existing !== 'object')) {
+          throw new Error(`Key "${key}" conflicts with another key when nested on "${keySeparator}". Leave keySeparator out to export flat keys.`);
+        }
+        if (last) {
+          node[part] = value;
+        } else {
+          node = (node[part] ??= {}) as JSONObject;
+        }
+      });
+    }
+    return root;
+  }
+
+  private fromI18next(poFile: POFile, data: JSONObject, keySeparator: string): { units: CatalogUnit[]; unmatched: ImportedEntry[]; changed: ImportedEntry[] } {
+    const flat = new Map<string, unknown>();
+    const flatten = (node: JSONObject, prefix: string): void => {
+      Object.entries(node).forEach(([key, value]) => {
+        const full = prefix === '' ? key : `${prefix}${keySeparator}${key}`;
+        if (keySeparator !== '' && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+          flatten(value as JSONObject, full);
+        } else {
+          flat.set(full, value);
+        }
+      });
+    };
+    flatten(data, '');
+
+    const suffixes = this.pluralSuffixes(poFile);
+    const units: CatalogUnit[] = [];
+    const changed: ImportedEntry[] = [];
+    const consumed = new Set<string>();
+    for (const entry of poFile.entries) {
+      if (entry.obsolete) continue;
+      const key = this.i18nextKey(entry);
+      if (entry.msgid_plural === undefined) {
+        if (!flat.has(key)) continue;
+        consumed.add(key);
+        const value = flat.get(key);
+        if (typeof value !== 'string') {
+          changed.push({ ...this.reference(entry), reason: 'expected a string' });
+          continue;
+        }
+        units.push(this.toUnit(entry, [value]));
+        continue;
+      }
+
+      const keys = suffixes.map(suffix => `${key}_${suffix}`);
+      if (!keys.some(pluralKey => flat.has(pluralKey))) {
+        if (flat.has(key)) {
+          consumed.add(key);
+          changed.push({ ...this.reference(entry), reason: `expected plural keys ${keys.join(', ')}` });
+        }
+        continue;
+      }
+      keys.forEach(pluralKey => consumed.add(pluralKey));
+      units.push(this.toUnit(entry, keys.map(pluralKey => {
+        const value = flat.get(pluralKey);
+        return typeof value === 'string' ? value : '';
+      })));
+    }
+
+    const unmatched = Array.from(flat.keys()).filter(key => !consumed.has(key)).map(key => ({ msgid: key }));
+    return { units, unmatched, changed };
+  }
+
+  private formatCSV(poFile: POFile, entries: TranslationEntry[]): string {
+    const nplurals = poFile.nplurals ?? 2;
+    const pluralColumns = entries.some(entry => entry.msgid_plural !== undefined)
+      ? Array.from({ length: nplurals - 1 }, (_, index) => `msgstr[${index + 1}]`)
+      : [];
+    const header = ['msgctxt', 'msgid', 'msgid_plural', 'msgstr', ...pluralColumns, 'fuzzy', 'comments', 'translator_comments', 'references'];
+    const rows = entries.map(entry => {
+      const forms = this.forms(entry, nplurals, false) as string[];
+      return [
+        entry.msgctxt ?? '',
+        entry.msgid,
+        entry.msgid_plural ?? '',
+        forms[0] ?? '',
+        ...pluralColumns.map((_, index) => entry.msgid_plural !== undefined ? forms[index + 1] ?? '' : ''),
+        this.isFuzzy(entry) ? 'yes' : '',
+        (entry.comments ?? []).join('\n'),
+        (entry.translatorComments ?? []).join('\n'),
+        (entry.references ?? []).join(' ')
+      ];
+    });
+    return formatCSV([header, ...rows]);
+  }
+
+  private parseCSV(content: string, filePath: string): CatalogUnit[] {
+    const [header, ...rows] = parseCSV(content);
+    const columns = (header ?? []).map(column => column.trim().toLowerCase());
+    const msgidColumn = columns.indexOf('msgid');
+    if (msgidColumn === -1) {
+      throw new Error(`Invalid CSV file ${filePath}: the header row needs an msgid column`);
+    }
+    const column = (name: string): number => columns.indexOf(name);
+    const pluralColumns = columns
+      .map((name, index) => ({ form: name.match(/^msgstr\[(\d+)\]$/)?.[1], index }))
+      .filter(({ form }) => form !== undefined && form !== '0')
+      .sort((a, b) => Number(a.form) - Number(b.form));
+
+    return rows.map(row => {
+      const cell = (index: number): string => index === -1 ? '' : row[index] ?? '';
+      const msgctxt = cell(column('msgctxt'));
+      const msgidPlural = cell(column('msgid_plural'));
+      const first = cell(column('msgstr') !== -1 ? column('msgstr') : column('msgstr[0]'));
+      const targets = msgidPlural !== '' ? [first, ...pluralColumns.map(({ index }) => cell(index))] : [first];
+      const fuzzy = ['yes', 'true', '1', 'fuzzy'].includes(cell(column('fuzzy')).trim().toLowerCase());
+      return {
+        msgid: cell(msgidColumn),
+        ...(msgidPlural !== '' && { msgidPlural }),
+        ...(msgctxt !== '' && { msgctxt }),
+        targets,
+        state: targets.every(target => target === '') ? 'new' : fuzzy ? 'fuzzy' : 'translated'
+      };
+    });
+  }
+
+  /**
+   * i18next suffix of each plural form: its CLDR category when the
+   * catalog's Plural-Forms agrees with CLDR, otherwise the form index.
+   */
+  private pluralSuffixes(poFile: POFile): string[] {
+    const forms = this.poFileService.getPluralForms(poFile.path);
+    const categories = poFile.language ? pluralCategories(forms, poFile.language) : undefined;
+    return categories ?? Array.from({ length: forms.nplurals }, (_, index) => String(index));
+  }
+
+  private toUnit(entry: TranslationEntry, targets: string[]): CatalogUnit {
+    return {
+      ...this.reference(entry),
+      ...(entry.msgid_plural !== undefined && { msgidPlural: entry.msgid_plural }),
+      targets,
+      state: targets.every(target => target === '') ? 'new' : 'translated'
+    };
+  }
+
+  private forms(entry: TranslationEntry, nplurals: number, collapseSingular: boolean): string | string[] {
+    const forms = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+    if (entry.msgid_plural === undefined) return collapseSingular ? forms[0] ?? '' : [forms[0] ?? ''];
+    return Array.from({ length: Math.max(nplurals, forms.length) }, (_, index) => forms[index] ?? '');
+  }
+
+  private flatKey(entry: TranslationEntry): string {
+    return entry.msgctxt !== undefined ? `${entry.msgctxt}${CONTEXT_SEPARATOR}${entry.msgid}` : entry.msgid;
+  }
+
+  private i18nextKey(entry: TranslationEntry): string {
+    return entry.msgctxt !== undefined ? `${entry.msgid}_${entry.msgctxt}` : entry.msgid;
+  }
+
+  private reference(entry: TranslationEntry): ImportedEntry {
+    return { msgid: entry.msgid, ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }) };
+  }
+
+  private isFuzzy(entry: TranslationEntry): boolean {
+    const flags = entry.flags ?? [];
+    return Array.isArray(flags) ? flags.includes('fuzzy') : Boolean(flags['fuzzy']);
+  }
+
+  private defaultOutputPath(poFile: POFile, format: CatalogFormat): string {
+    const parsed = path.parse(poFile.path);
+    return path.join(parsed.dir, `${parsed.name}.${format === 'csv' ? 'csv' : 'json'}`);
+  }
+}
@@ -0,0 +1,112 @@
+import * as path from 'node:path';
+import { TranslationService } from './TranslationService.js';
+import { CatalogResource, CatalogResourceTemplate, ResourceContent } from '../types/index.js';
+
+const SCHEME = 'po://';
+const JSON_MIME = 'application/json';
+
+/**
+ * Maps loaded catalogs to MCP resources:
+ *
+ *   po://<file>/stats                    translation statistics
+ *   po://<file>/entries                  every entry of the catalog
+ *   po://<file>/entry/<msgctxt>/<msgid>  a single entry (empty msgctxt for none)
+ *
+ * Every segment is URI-encoded, so <file> is the encoded absolute path.
+ */
+export class CatalogResourceService {
+  constructor(private translationService: TranslationService) {}
+
+  public static fileUri(filePath: string): string {
+    return `${SCHEME}${encodeURIComponent(path.resolve(filePath))}`;
+  }
+
+  public static entryUri(filePath: string, msgid: string, msgctxt?: string): string {
+    return `${CatalogResourceService.fileUri(filePath)}/entry/${encodeURIComponent(msgctxt ?? '')}/${encodeURIComponent(msgid)}`;
+  }
+
+  public listResources(): CatalogResource[] {
+    return this.translationService.getLoadedPOFiles().flatMap(poFile => {
+      const fileUri = CatalogResourceService.fileUri(poFile.path);
+      const label = poFile.language ? `${path.basename(poFile.path)} (${poFile.language})` : path.basename(poFile.path);
+      return [
+        {
+          uri: `${fileUri}/stats`,
+          name: `${label} statistics`,
+          description: `Translation statistics for ${poFile.path}`,
+          mimeType: JSON_MIME
+        },
+        {
+          uri: `${fileUri}/entries`,
+          name: `${label} entries`,
+          description: `All entries of ${poFile.path}`,
+          mimeType: JSON_MIME
+        }
+      ];
+    });
+  }
+
+  public listResourceTemplates(): CatalogResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${SCHEME}{file}/entry/{msgctxt}/{msgid}`,
+        name: 'Catalog entry',
+        description: 'A single entry of a loaded catalog. file is the URI-encoded absolute .po path; msgctxt is empty for entries without context',
+        mimeType: JSON_MIME
+      },
+      {
+        uriTemplate: `${SCHEME}{file}/stats`,
+        name: 'Catalog statistics',
+        description: 'Translation statistics of a loaded catalog',
+        mimeType: JSON_MIME
+      }
+    ];
+  }
+
+  public readResource(uri: string): ResourceContent[] {
+    if (!uri.startsWith(SCHEME)) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    const [encodedFile, kind, ...rest] = uri.slice(SCHEME.length).split('/');
+    const filePath = this.decode(encodedFile ?? '', uri);
+    const poFile = this.translationService.getLoadedPOFiles({ filePath })[0]!;
+
+    let data: unknown;
+    switch (kind) {
+      case 'stats':
+        data = { file: poFile.path, language: poFile.language, ...this.translationService.getTranslationStats({ filePath }) };
+        break;
+      case 'entries':
+        data = poFile.entries.map(entry => ({ uri: CatalogResourceService.entryUri(poFile.path, entry.msgid, entry.msgctxt), ...entry }));
+        break;
+      case 'entry': {
+        if (rest.length !== 2) {
+          throw new Error(`Invalid entry resource: ${uri}. Expected po://<file>/entry/<msgctxt>/<msgid>.`);
+        }
+        const msgctxt = this.decode(rest[0]!, uri);
+        const msgid = this.decode(rest[1]!, uri);
+        const entry = poFile.entries.find(candidate =>
+          candidate.msgid === msgid && (candidate.msgctxt ?? '') === msgctxt && !candidate.obsolete
+        );
+        if (!entry) {
+          throw new Error(`Translation not found: "${msgid}"${msgctxt ? ` with context "${msgctxt}"` : ''} in ${poFile.path}`);
+        }
+        data = { file: poFile.path, language: poFile.language, ...entry };
+        break;
+      }
+      default:
+        throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    return [{ uri, mimeType: JSON_MIME, text: JSON.stringify(data, null, 2) }];
+  }
+
+  private decode(segment: string, uri: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+  }
+}
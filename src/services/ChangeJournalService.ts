@@ -0,0 +1,217 @@
+import { promises as fs } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import * as path from 'node:path';
+import { JournalChange, JournalFilter } from '../types/index.js';
+
+type NewChange = Pick<JournalChange, 'file' | 'msgid' | 'msgctxt' | 'oldMsgstr' | 'newMsgstr' | 'oldFlags' | 'newFlags'>;
+
+// A line in the journal file: a change, or a marker that changes were reverted
+type JournalLine = JournalChange | { reverted: number[]; timestamp: string };
+
+// A lock older than this was left behind by a process that died while writing
+const STALE_LOCK_MS = 10_000;
+const LOCK_TIMEOUT_MS = 5_000;
+
+/**
+ * Append-only log of translation changes, stored as JSON lines so it
+ * survives restarts. Without a path the journal lives in memory only.
+ * Several servers may share one journal file: new lines are read before
+ * every use, and ids are assigned under a lock file.
+ */
+export class ChangeJournalService {
+  private changes: JournalChange[] = [];
+  private byId = new Map<number, JournalChange>();
+  // Bytes of the journal file already read into changes
+  private offset = 0;
+  private readonly session = randomUUID().slice(0, 8);
+
+  constructor(private journalPath?: string, private author?: string) {}
+
+  public getSession(): string {
+    return this.session;
+  }
+
+  public async record(newChanges: NewChange[], action: JournalChange['action']): Promise<JournalChange[]> {
+    if (newChanges.length === 0) return [];
+    return await this.withLock(async () => {
+      // Read what other servers appended, so ids and batches continue after theirs
+      const changes = await this.load();
+      const lastId = changes.at(-1)?.id ?? 0;
+      const batch = (changes.at(-1)?.batch ?? 0) + 1;
+      const timestamp = new Date().toISOString();
+
+      const recorded = newChanges.map((change, index): JournalChange => ({
+        id: lastId + index + 1,
+        batch,
+        action,
+        ...change,
+        timestamp,
+        session: this.session,
+        ...(this.author !== undefined && { author: this.author })
+      }));
+      await this.append(recorded);
+      return recorded;
+    });
+  }
+
+  public async markReverted(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.withLock(async () => {
+      await this.load();
+      await this.append([{ reverted: ids, timestamp: new Date().toISOString() }]);
+    });
+  }
+
+  /**
+   * Changes matching the filter, newest first.
+   */
+  public async list(filter: JournalFilter = {}): Promise<JournalChange[]> {
+    const matches = (await this.load()).filter(change => this.matches(change, filter)).reverse();
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  public async get(id: number): Promise<JournalChange> {
+    const change = (await this.load()).find(candidate => candidate.id === id);
+    if (!change) {
+      throw new Error(`Change not found: ${id}. Use list_recent_changes to see recorded changes.`);
+    }
+    return change;
+  }
+
+  /**
+   * The most recent edit batches that still have changes to undo, newest
+   * first. Reverts are not undone by this; revert them explicitly to redo.
+   */
+  public async lastBatches(count: number, filter: JournalFilter = {}): Promise<JournalChange[][]> {
+    const batches = new Map<number, JournalChange[]>();
+    for (const change of await this.list(filter)) {
+      if (change.action !== 'edit' || change.reverted) continue;
+      if (!batches.has(change.batch)) {
+        if (batches.size >= count) break;
+        batches.set(change.batch, []);
+      }
+      batches.get(change.batch)!.push(change);
+    }
+    return Array.from(batches.values());
+  }
+
+  private matches(change: JournalChange, filter: JournalFilter): boolean {
+    if (filter.filePath && change.file !== path.resolve(filter.filePath)) return false;
+    if (filter.session && change.session !== filter.session) return false;
+    return true;
+  }
+
+  /**
+   * Reads the lines appended since the last call, by this or another server.
+   */
+  private async load(): Promise<JournalChange[]> {
+    if (!this.journalPath) return this.changes;
+
+    let content: Buffer;
+    try {
+      const handle = await fs.open(this.journalPath, 'r');
+      try {
+        const { size } = await handle.stat();
+        if (size < this.offset) {
+          // Truncated or replaced: start over
+          this.changes = [];
+          this.byId.clear();
+          this.offset = 0;
+        }
+        content = Buffer.alloc(size - this.offset);
+        await handle.read(content, 0, content.length, this.offset);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return this.changes;
+      throw new Error(`Failed to read change journal ${this.journalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // A line without its newline is still being written; read it next time
+    const end = content.lastIndexOf(0x0a) + 1;
+    this.offset += end;
+    content.toString('utf-8', 0, end).split('\n').filter(line => line.trim() !== '').forEach(line => {
+      let parsed: JournalLine;
+      try {
+        parsed = JSON.parse(line) as JournalLine;
+      } catch {
+        // A line cut short by a crash; the rest of the journal is still usable
+        return;
+      }
+      this.apply(parsed);
+    });
+    return this.changes;
+  }
+
+  private apply(parsed: JournalLine): void {
+    if ('reverted' in parsed && Array.isArray(parsed.reverted)) {
+      parsed.reverted.forEach(id => {
+        const change = this.byId.get(id);
+        if (change) change.reverted = true;
+      });
+    } else {
+      const change = parsed as JournalChange;
+      this.changes.push(change);
+      this.byId.set(change.id, change);
+    }
+  }
+
+  /**
+   * Appends lines and reads them back into changes. Callers hold the lock
+   * and have just called load, so anything left unread is a line cut short
+   * by a crash; it is closed off so the new lines start on their own.
+   */
+  private async append(lines: JournalLine[]): Promise<void> {
+    if (!this.journalPath) {
+      lines.forEach(line => this.apply(line));
+      return;
+    }
+    try {
+      const size = await fs.stat(this.journalPath).then(stats => stats.size, () => 0);
+      const text = lines.map(line => `${JSON.stringify(line)}\n`).join('');
+      await fs.appendFile(this.journalPath, size > this.offset ? `\n${text}` : text, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to write change journal ${this.journalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    await this.load();
+  }
+
+  /**
+   * Runs task while holding <journal>.lock, so two servers sharing the
+   * journal cannot hand out the same ids.
+   */
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    if (!this.journalPath) return await task();
+    const lockPath = `${this.journalPath}.lock`;
+    try {
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    } catch (error) {
+      throw new Error(`Failed to write change journal ${this.journalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new Error(`Failed to lock change journal ${this.journalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        const lockedAt = await fs.stat(lockPath).then(stats => stats.mtimeMs, () => 0);
+        if (Date.now() - lockedAt > STALE_LOCK_MS) {
+          await fs.rm(lockPath, { force: true });
+        } else if (Date.now() > deadline) {
+          throw new Error(`Change journal ${this.journalPath} is locked by another process. Remove ${lockPath} if no other server is running.`);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+      }
+    }
+    try {
+      return await task();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+}
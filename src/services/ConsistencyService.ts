@@ -0,0 +1,140 @@
+import { POFileService } from './POFileService.js';
+import {
+  POFile,
+  EntryStatus,
+  TranslationSearchResult,
+  LanguageComparisonOptions,
+  LanguageComparison,
+  LanguageComparisonRow,
+  InconsistencyOptions,
+  Inconsistency,
+  TranslationVariant
+} from '../types/index.js';
+
+/**
+ * Compares loaded catalogs with each other: which msgids each language has
+ * translated, and where one language translates the same msgid differently
+ * in different domains.
+ */
+export class ConsistencyService {
+  constructor(private poFileService: POFileService) {}
+
+  public compareLanguages(options: LanguageComparisonOptions = {}): LanguageComparison {
+    const { onlyIncomplete = true, limit = 100 } = options;
+    const files = this.selectFiles(options.domain, options.languages);
+    const languages = Array.from(new Set(files.map(poFile => poFile.language!))).sort();
+    if (languages.length < 2) {
+      throw new Error(`compare_languages needs catalogs in at least two languages, but found ${languages.length === 0 ? 'none' : languages.join(', ')}. Use load_translation_project to load more.`);
+    }
+
+    const rows = new Map<string, LanguageComparisonRow>();
+    for (const poFile of files) {
+      for (const [status, results] of this.entriesByStatus(poFile)) {
+        results.forEach(({ entry }) => {
+          const key = JSON.stringify([poFile.domain ?? '', entry.msgctxt ?? null, entry.msgid]);
+          const row = rows.get(key) ?? {
+            ...(poFile.domain !== undefined && { domain: poFile.domain }),
+            msgid: entry.msgid,
+            ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+            status: {}
+          };
+          row.status[poFile.language!] = status;
+          rows.set(key, row);
+        });
+      }
+    }
+
+    const matrix = Array.from(rows.values())
+      .map(row => ({ ...row, status: Object.fromEntries(languages.map(language => [language, row.status[language] ?? 'absent'])) }))
+      .filter(row => !onlyIncomplete || Object.values(row.status).some(status => status !== 'translated'));
+
+    return {
+      languages,
+      stats: Object.fromEntries(languages.map(language => [
+        language,
+        this.poFileService.getTranslationStats({ language, ...(options.domain !== undefined && { domain: options.domain }) })
+      ])),
+      totalRows: matrix.length,
+      rows: matrix.slice(0, limit)
+    };
+  }
+
+  /**
+   * Finds msgid/msgctxt pairs that one language translates in more than one
+   * way across its catalogs (usually different domains).
+   */
+  public findInconsistencies(options: InconsistencyOptions = {}): Inconsistency[] {
+    const { includeFuzzy = false, limit } = options;
+    const files = this.selectFiles(options.domain, options.language !== undefined ? [options.language] : undefined);
+
+    const groups = new Map<string, { language: string; msgid: string; msgctxt?: string; variants: Map<string, TranslationVariant> }>();
+    for (const poFile of files) {
+      const results = this.poFileService.searchTranslations({
+        filePath: poFile.path,
+        query: '',
+        searchIn: 'msgid',
+        includeUntranslated: false,
+        includeTranslated: true,
+        includeFuzzy
+      });
+      results.forEach(({ entry }) => {
+        const key = JSON.stringify([poFile.language, entry.msgctxt ?? null, entry.msgid]);
+        const group = groups.get(key) ?? {
+          language: poFile.language!,
+          msgid: entry.msgid,
+          ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+          variants: new Map<string, TranslationVariant>()
+        };
+        const fuzzy = this.isFuzzy(entry.flags);
+        const variantKey = JSON.stringify([entry.msgstr, fuzzy]);
+        const variant = group.variants.get(variantKey) ?? { msgstr: entry.msgstr, files: [], ...(fuzzy && { fuzzy }) };
+        variant.files.push(poFile.path);
+        group.variants.set(variantKey, variant);
+        groups.set(key, group);
+      });
+    }
+
+    const inconsistencies: Inconsistency[] = [];
+    for (const { variants, ...group } of groups.values()) {
+      // A fuzzy copy of the same translation is not a disagreement
+      if (new Set(Array.from(variants.values(), variant => JSON.stringify(variant.msgstr))).size < 2) continue;
+      inconsistencies.push({ ...group, variants: Array.from(variants.values()).sort((a, b) => b.files.length - a.files.length) });
+    }
+    return limit !== undefined ? inconsistencies.slice(0, limit) : inconsistencies;
+  }
+
+  /**
+   * Loaded catalogs with a known language, optionally narrowed to a domain
+   * and a set of languages.
+   */
+  private selectFiles(domain: string | undefined, languages: string[] | undefined): POFile[] {
+    if (this.poFileService.getLoadedFiles().length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+    const files = languages && languages.length > 0
+      ? languages.flatMap(language => this.poFileService.resolveFiles({ language, ...(domain !== undefined && { domain }) }))
+      : this.poFileService.resolveFiles(domain !== undefined ? { domain } : {});
+    return Array.from(new Set(files)).filter(poFile => poFile.language !== undefined);
+  }
+
+  /**
+   * Entries of a catalog grouped by status, using the same rules as
+   * search_translations and get_translation_stats.
+   */
+  private entriesByStatus(poFile: POFile): [EntryStatus, TranslationSearchResult[]][] {
+    const search = (status: EntryStatus): TranslationSearchResult[] => this.poFileService.searchTranslations({
+      filePath: poFile.path,
+      query: '',
+      searchIn: 'msgid',
+      includeTranslated: status === 'translated',
+      includeFuzzy: status === 'fuzzy',
+      includeUntranslated: status === 'untranslated'
+    });
+    return (['translated', 'fuzzy', 'untranslated'] as const).map(status => [status, search(status)]);
+  }
+
+  private isFuzzy(flags: string[] | Record<string, boolean> | undefined): boolean {
+    const list = flags ?? [];
+    return Array.isArray(list) ? list.includes('fuzzy') : Boolean(list['fuzzy']);
+  }
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { GlossaryLoadOptions, GlossaryLoadResult, GlossaryTerm } from '../types/index.js';
+import {
+  ParsedGlossaryTerm,
+  containsTerm,
+  normalizeGlossaryLanguage,
+  parseGlossaryCSV,
+  parseGlossaryJSON,
+  parseGlossaryTBX
+} from '../utils/glossary.js';
+
+/**
+ * Per-language terminology loaded from TBX, CSV or JSON files. Terms are
+ * looked up in source strings by whole-word match; a catalog for a regional
+ * variant (de_AT) also sees the terms of its base language (de).
+ */
+export class GlossaryService {
+  private terms: Map<string, GlossaryTerm[]> = new Map();
+  private sources: Map<string, GlossaryTerm[]> = new Map();
+
+  public async loadGlossary(options: GlossaryLoadOptions): Promise<GlossaryLoadResult> {
+    const glossaryPath = path.resolve(options.path);
+    let content: string;
+    try {
+      content = await fs.readFile(glossaryPath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to load glossary ${options.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let parsed: ParsedGlossaryTerm[];
+    let fileLanguage: string | undefined;
+    try {
+      switch (path.extname(glossaryPath).toLowerCase()) {
+        case '.tbx':
+        case '.xml':
+          parsed = parseGlossaryTBX(content, options.sourceLanguage ?? 'en');
+          break;
+        case '.csv':
+          parsed = parseGlossaryCSV(content);
+          break;
+        case '.json': {
+          const glossary = parseGlossaryJSON(content);
+          parsed = glossary.terms;
+          fileLanguage = glossary.language;
+          break;
+        }
+        default:
+          throw new Error('unsupported format (use .tbx, .csv or .json)');
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse glossary ${options.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const defaultLanguage = options.language ?? fileLanguage ?? this.languageFromFileName(glossaryPath);
+    const terms = parsed.map(term => {
+      const language = options.language ?? term.language ?? defaultLanguage;
+      if (!language) {
+        throw new Error(`Cannot determine the language of glossary ${options.path}. Pass language or add a language column.`);
+      }
+      return { ...term, language: normalizeGlossaryLanguage(language) };
+    });
+
+    // Reloading a file replaces its previous terms
+    this.sources.set(glossaryPath, terms);
+    this.rebuild();
+
+    return {
+      path: glossaryPath,
+      terms: terms.length,
+      languages: Array.from(new Set(terms.map(term => term.language)))
+    };
+  }
+
+  /**
+   * Glossary terms for the language that occur in any of the given texts.
+   */
+  public findTerms(language: string | undefined, ...texts: (string | undefined)[]): GlossaryTerm[] {
+    if (!language) return [];
+    return this.getTerms(language).filter(term =>
+      texts.some(text => text !== undefined && containsTerm(text, term.term, term.caseSensitive))
+    );
+  }
+
+  public getTerms(language: string): GlossaryTerm[] {
+    const normalized = normalizeGlossaryLanguage(language);
+    const base = normalized.split('_')[0]!;
+    const terms = this.terms.get(normalized) ?? [];
+    return base === normalized ? terms : [...terms, ...(this.terms.get(base) ?? [])];
+  }
+
+  public getLoadedGlossaries(): string[] {
+    return Array.from(this.sources.keys());
+  }
+
+  private rebuild(): void {
+    this.terms = new Map();
+    for (const terms of this.sources.values()) {
+      terms.forEach(term => {
+        const list = this.terms.get(term.language);
+        if (list) {
+          list.push(term);
+        } else {
+          this.terms.set(term.language, [term]);
+        }
+      });
+    }
+  }
+
+  private languageFromFileName(filePath: string): string | undefined {
+    // de.csv, glossary.de.csv, glossary_pt-BR.tbx
+    const name = path.basename(filePath, path.extname(filePath)).split('.').pop()!;
+    if (/^[a-z]{2,3}(?:[_-][A-Za-z]{2,4})?$/.test(name)) return name;
+    return name.match(/[_-]([a-z]{2}(?:[_-][A-Z]{2})?)$/)?.[1];
+  }
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { POFileService } from './POFileService.js';
+import {
+  POFile,
+  CompileOptions,
+  CompileReport
+} from '../types/index.js';
+import { compileMO, toMOMessage, MOMessage } from '../utils/moFormat.js';
+
+/**
+ * Compiles loaded catalogs to binary .mo files following msgfmt's rules.
+ */
+export class MOCompilerService {
+  constructor(private poFileService: POFileService) {}
+
+  public async compile(options: CompileOptions): Promise<CompileReport[]> {
+    const { outputPath, includeFuzzy = false, ...filter } = options;
+    const files = this.poFileService.resolveFiles(filter);
+    if (files.length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+    if (outputPath && files.length > 1) {
+      throw new Error(`outputPath can only be used with a single catalog, but ${files.length} are selected. Pass filePath to pick one.`);
+    }
+
+    const reports: CompileReport[] = [];
+    for (const poFile of files) {
+      const output = outputPath ? path.resolve(outputPath) : this.defaultOutputPath(poFile);
+      const { messages, report } = this.collectMessages(poFile, includeFuzzy);
+
+      try {
+        await fs.mkdir(path.dirname(output), { recursive: true });
+        await fs.writeFile(output, compileMO(messages));
+      } catch (error) {
+        throw new Error(`Failed to write MO file ${output}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      reports.push({ ...report, output });
+    }
+    return reports;
+  }
+
+  private collectMessages(poFile: POFile, includeFuzzy: boolean): { messages: MOMessage[]; report: Omit<CompileReport, 'output'> } {
+    const report = {
+      source: poFile.path,
+      messages: 0,
+      skippedFuzzy: 0,
+      skippedUntranslated: 0,
+      skippedObsolete: 0
+    };
+
+    // The header is always written, even when it is marked fuzzy
+    const headerText = Object.entries(poFile.headers)
+      .filter((header): header is [string, string] => header[1] !== undefined)
+      .map(([key, value]) => `${key}: ${value}\n`)
+      .join('');
+    const messages: MOMessage[] = [{ key: '', value: headerText }];
+
+    poFile.entries.forEach(entry => {
+      if (entry.obsolete) {
+        report.skippedObsolete++;
+        return;
+      }
+      const firstForm = Array.isArray(entry.msgstr) ? entry.msgstr[0] ?? '' : entry.msgstr;
+      if (firstForm === '') {
+        report.skippedUntranslated++;
+        return;
+      }
+      const flags = entry.flags ?? [];
+      const fuzzy = Array.isArray(flags) ? flags.includes('fuzzy') : Boolean(flags['fuzzy']);
+      if (fuzzy && !includeFuzzy) {
+        report.skippedFuzzy++;
+        return;
+      }
+      messages.push(toMOMessage(entry));
+    });
+
+    // The header is not a message
+    report.messages = messages.length - 1;
+    return { messages, report };
+  }
+
+  private defaultOutputPath(poFile: POFile): string {
+    const parsed = path.parse(poFile.path);
+    return path.join(parsed.dir, `${parsed.name}.mo`);
+  }
+}
@@ -0,0 +1,114 @@
+import { TranslationProvider } from '../types/index.js';
+import { maskPlaceholders, unmaskPlaceholders } from '../utils/placeholders.js';
+import { PseudoTranslationProvider } from '../providers/PseudoTranslationProvider.js';
+import { HttpTranslationProvider } from '../providers/HttpTranslationProvider.js';
+import { LibreTranslateProvider } from '../providers/LibreTranslateProvider.js';
+
+export interface MachineTranslationConfig {
+  provider?: string; // Default provider name
+  url?: string;
+  apiKey?: string;
+  requestsPerSecond?: number; // Default: 2
+  batchSize?: number; // Default: 25
+}
+
+/**
+ * Runs texts through a TranslationProvider. Placeholders and tags are
+ * masked before sending and restored afterwards, identical texts are sent
+ * once, and requests are batched and spaced out to respect rate limits.
+ */
+export class MachineTranslationService {
+  private providers: Map<string, TranslationProvider> = new Map();
+  private lastRequest = 0;
+
+  constructor(private config: MachineTranslationConfig = {}) {
+    this.registerProvider(new PseudoTranslationProvider());
+    if (config.url) {
+      this.registerProvider(config.provider === 'libretranslate'
+        ? new LibreTranslateProvider(config.url, config.apiKey)
+        : new HttpTranslationProvider(config.url, config.apiKey, config.batchSize));
+    }
+  }
+
+  public static configFromEnv(env: NodeJS.ProcessEnv): MachineTranslationConfig {
+    const number = (name: string): number | undefined => {
+      const value = env[name];
+      if (value === undefined || value === '') return undefined;
+      const parsed = Number(value);
+      if (!(parsed > 0)) {
+        throw new Error(`Invalid ${name} "${value}". Use a positive number.`);
+      }
+      return parsed;
+    };
+    const requestsPerSecond = number('TRANSLATE_PO_MT_RATE');
+    const batchSize = number('TRANSLATE_PO_MT_BATCH');
+    return {
+      ...(env['TRANSLATE_PO_MT_PROVIDER'] && { provider: env['TRANSLATE_PO_MT_PROVIDER'] }),
+      ...(env['TRANSLATE_PO_MT_URL'] && { url: env['TRANSLATE_PO_MT_URL'] }),
+      ...(env['TRANSLATE_PO_MT_API_KEY'] && { apiKey: env['TRANSLATE_PO_MT_API_KEY'] }),
+      ...(requestsPerSecond !== undefined && { requestsPerSecond }),
+      ...(batchSize !== undefined && { batchSize })
+    };
+  }
+
+  public registerProvider(provider: TranslationProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * The named provider, or the configured one. Without a configured provider
+   * the pseudo provider must be asked for by name, so placeholder text never
+   * ends up in a catalog by accident.
+   */
+  public getProvider(name?: string): TranslationProvider {
+    const wanted = name ?? this.config.provider ?? (this.config.url ? 'http' : undefined);
+    if (wanted === undefined) {
+      throw new Error(`No machine translation provider configured. Set TRANSLATE_PO_MT_URL (and TRANSLATE_PO_MT_PROVIDER) to use a translation service, or pass provider "pseudo" for offline test output.`);
+    }
+    const provider = this.providers.get(wanted);
+    if (!provider) {
+      const hint = wanted === 'http' || wanted === 'libretranslate' ? ' Set TRANSLATE_PO_MT_URL to enable it.' : '';
+      throw new Error(`Unknown translation provider "${wanted}". Available: ${Array.from(this.providers.keys()).join(', ')}.${hint}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Translates texts, each scanned for placeholders according to its flags.
+   * A result is undefined when the provider dropped or invented a
+   * placeholder, so the caller can skip it.
+   */
+  public async translate(
+    items: { text: string; flags: string[] }[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    providerName?: string
+  ): Promise<(string | undefined)[]> {
+    const provider = this.getProvider(providerName);
+    const masked = items.map(item => maskPlaceholders(item.text, item.flags));
+    const unique = Array.from(new Set(masked.map(item => item.text)));
+
+    const batchSize = provider.maxBatchSize ?? this.config.batchSize ?? 25;
+    const translated = new Map<string, string>();
+    for (let start = 0; start < unique.length; start += batchSize) {
+      const batch = unique.slice(start, start + batchSize);
+      await this.throttle();
+      const results = await provider.translate(batch, sourceLanguage, targetLanguage);
+      if (results.length !== batch.length) {
+        throw new Error(`Provider ${provider.name} returned ${results.length} translations for ${batch.length} texts`);
+      }
+      batch.forEach((text, index) => translated.set(text, results[index]!));
+    }
+
+    return masked.map(item => unmaskPlaceholders(translated.get(item.text) ?? '', item.tokens));
+  }
+
+  private async throttle(): Promise<void> {
+    const interval = 1000 / (this.config.requestsPerSecond ?? 2);
+    const wait = this.lastRequest + interval - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    this.lastRequest = Date.now();
+  }
+}
@@ -0,0 +1,162 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { glob } from 'glob';
+import {
+  ExtractOptions,
+  ExtractionReport,
+  ExtractionWarning,
+  SourceLanguage,
+  TranslationEntry
+} from '../types/index.js';
+import { extractMessages, parseKeyword, DEFAULT_KEYWORDS, DEFAULT_COMMENT_TAGS } from '../utils/extract.js';
+import { serializePO, formatPODate } from '../utils/poFormat.js';
+import { findPlaceholders } from '../utils/placeholders.js';
+
+const LANGUAGES: Record<string, SourceLanguage> = {
+  '.py': 'python',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'javascript',
+  '.tsx': 'javascript',
+  '.mts': 'javascript',
+  '.cts': 'javascript',
+  '.html': 'jinja',
+  '.htm': 'jinja',
+  '.jinja': 'jinja',
+  '.jinja2': 'jinja',
+  '.j2': 'jinja'
+};
+
+// TypeScript outside .tsx files has no JSX; "<T>" there is a type argument
+const NO_JSX = ['.ts', '.mts', '.cts'];
+
+const DEFAULT_PATTERNS = [`**/*.{${Object.keys(LANGUAGES).map(extension => extension.slice(1)).join(',')}}`];
+const DEFAULT_IGNORE = ['**/node_modules/**', '**/.git/**', '**/.venv/**', '**/venv/**', '**/__pycache__/**', '**/dist/**', '**/build/**', '**/*.d.ts', '**/*.min.js'];
+
+/**
+ * Builds a .pot template from source code (pybabel extract / xgettext
+ * equivalent). References are written relative to the scanned directory, so
+ * with TRANSLATE_PO_SOURCE_ROOT as the directory get_entry_context can show
+ * them.
+ */
+export class MessageExtractionService {
+  constructor(private sourceRoot?: string) {}
+
+  public async extract(options: ExtractOptions): Promise<ExtractionReport> {
+    const directory = options.directory ?? this.sourceRoot;
+    if (directory === undefined) {
+      throw new Error(`No source directory given. Pass directory or set TRANSLATE_PO_SOURCE_ROOT.`);
+    }
+    const root = path.resolve(directory);
+    const output = path.resolve(options.outputPath);
+    const keywords = [...DEFAULT_KEYWORDS, ...(options.keywords ?? [])].map(parseKeyword);
+    const commentTags = options.commentTags ?? DEFAULT_COMMENT_TAGS;
+
+    let files: string[];
+    try {
+      files = (await glob(options.patterns ?? DEFAULT_PATTERNS, { cwd: root, ignore: options.ignore ?? DEFAULT_IGNORE, nodir: true })).sort();
+    } catch (error) {
+      throw new Error(`Failed to find source files in ${directory}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (files.length === 0) {
+      throw new Error(`No source files found in ${directory}. Check the directory, patterns and ignore options.`);
+    }
+
+    const entries = new Map<string, TranslationEntry>();
+    const warnings: ExtractionWarning[] = [];
+    let scanned = 0;
+    for (const file of files) {
+      const reference = file.split(path.sep).join('/');
+      const extension = path.extname(file).toLowerCase();
+      const language = LANGUAGES[extension];
+      if (language === undefined) {
+        warnings.push({ reference, message: 'Unknown source type; skipped' });
+        continue;
+      }
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(root, file), 'utf-8');
+      } catch (error) {
+        warnings.push({ reference, message: `Could not read file: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        continue;
+      }
+      scanned++;
+
+      const result = extractMessages(content, language, keywords, commentTags, !NO_JSX.includes(extension));
+      result.warnings.forEach(warning => warnings.push({ reference: `${reference}:${warning.line}`, message: warning.message }));
+      result.messages.forEach(message => {
+        const key = JSON.stringify([message.msgctxt ?? null, message.msgid]);
+        const entry: TranslationEntry = entries.get(key) ?? {
+          msgid: message.msgid,
+          ...(message.msgctxt !== undefined && { msgctxt: message.msgctxt }),
+          msgstr: '',
+          comments: [],
+          references: [],
+          flags: []
+        };
+        if (message.msgidPlural !== undefined) {
+          if (entry.msgid_plural === undefined) {
+            entry.msgid_plural = message.msgidPlural;
+            entry.msgstr = ['', ''];
+          } else if (entry.msgid_plural !== message.msgidPlural) {
+            warnings.push({
+              reference: `${reference}:${message.line}`,
+              message: `"${message.msgid}" has the plural "${message.msgidPlural}" here but "${entry.msgid_plural}" elsewhere; keeping the first`
+            });
+          }
+        }
+
+        const location = `${reference}:${message.line}`;
+        if (!entry.references!.includes(location)) entry.references!.push(location);
+        message.comments.forEach(comment => {
+          if (!entry.comments!.includes(comment)) entry.comments!.push(comment);
+        });
+        const flags = entry.flags as string[];
+        if (language !== 'javascript' && !flags.includes('python-format') && this.hasPrintfDirective(message.msgid, message.msgidPlural)) {
+          flags.push('python-format');
+        }
+        entries.set(key, entry);
+      });
+    }
+
+    const project = options.projectName ?? 'PROJECT';
+    const year = new Date().getFullYear();
+    const content = serializePO({
+      headers: {
+        'Project-Id-Version': `${project} ${options.projectVersion ?? 'VERSION'}`,
+        'Report-Msgid-Bugs-To': '',
+        'POT-Creation-Date': formatPODate(new Date()),
+        'PO-Revision-Date': 'YEAR-MO-DA HO:MI+ZONE',
+        'Last-Translator': 'FULL NAME <EMAIL@ADDRESS>',
+        'Language-Team': 'LANGUAGE <LL@li.org>',
+        'MIME-Version': '1.0',
+        'Content-Type': 'text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding': '8bit'
+      },
+      headerComments: [
+        `Translations template for ${project}.`,
+        `Copyright (C) ${year} ORGANIZATION`,
+        `This file is distributed under the same license as the ${project} project.`,
+        `FIRST AUTHOR <EMAIL@ADDRESS>, ${year}.`,
+        ''
+      ],
+      headerFlags: ['fuzzy'],
+      entries: Array.from(entries.values())
+    });
+
+    try {
+      await fs.mkdir(path.dirname(output), { recursive: true });
+      await fs.writeFile(output, content, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to write template ${output}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return { output, files: scanned, messages: entries.size, warnings };
+  }
+
+  private hasPrintfDirective(...texts: (string | undefined)[]): boolean {
+    // Brace placeholders are left to python-brace-format, which xgettext does not guess either
+    return texts.some(text => text !== undefined && findPlaceholders(text, ['no-python-brace-format']).length > 0);
+  }
+}
@@ -1,63 +1,213 @@
-import { promises as fs } from 'node:fs';
+import { promises as fs, watch, FSWatcher } from 'node:fs';
+import { createHash } from 'node:crypto';
 import * as path from 'node:path';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
 import { glob } from 'glob';
-import PO from 'pofile';
 import { 
   POFile, 
+  CatalogFilter,
   TranslationEntry, 
   TranslationSearchResult, 
   SearchOptions, 
+  SearchField,
   TranslationStats,
-  UpdateTranslationRequest 
+  UpdateTranslationRequest,
+  SaveConflict,
+  JournalChange,
+  EntryReference,
+  FlagUpdateRequest
 } from '../types/index.js';
-
-const execAsync = promisify(exec);
+import { parsePO, serializePO, ParsedPO, POLayout, layoutKey, fingerprintEntry, formatPODate } from '../utils/poFormat.js';
+import { validateHeaders } from '../utils/headers.js';
+import { ChangeJournalService } from './ChangeJournalService.js';
+import { mergeCatalogs } from '../utils/poMerge.js';
+import { parsePluralForms, PluralForms } from '../utils/pluralForms.js';
+
+export class SaveConflictError extends Error {
+  constructor(message: string, public readonly filePath: string, public readonly conflicts: SaveConflict[]) {
+    super(message);
+    this.name = 'SaveConflictError';
+  }
+}
 
 export class POFileService {
   private loadedFiles: Map<string, POFile> = new Map();
+  // Original text of each loaded file, so unmodified entries are written back verbatim
+  private layouts: Map<string, POLayout> = new Map();
+  // File content as last read or written: the common ancestor when the file changes on disk
+  private baselines: Map<string, string> = new Map();
+  private watchers: Map<string, FSWatcher> = new Map();
+  // Entry ids handed out so far, so looking one up does not hash every entry
+  private entryIds: Map<string, EntryReference> = new Map();
+  private refreshTimers: Map<string, NodeJS.Timeout> = new Map();
+  private changeListeners: ((filePath: string, isNew: boolean) => void)[] = [];
+  // Problems that happened outside a request (or must not fail it), passed on with the next tool result
+  private warnings: string[] = [];
+
+  /**
+   * Registers a callback that runs whenever a catalog is loaded or reloaded
+   * (every save reloads). isNew is true the first time a path is loaded.
+   */
+  public onFileChanged(listener: (filePath: string, isNew: boolean) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * With watch enabled, loaded catalogs without unsaved edits are reloaded
+   * when their file changes on disk. With a journal, every saved change to
+   * a msgstr or its flags is recorded.
+   */
+  constructor(private options: { watch?: boolean; journal?: ChangeJournalService; translator?: string } = {}) {}
 
   public async loadPOFile(filePath: string): Promise<POFile> {
     try {
       const absolutePath = path.resolve(filePath);
       const fileContent = await fs.readFile(absolutePath, 'utf-8');
-      const po = PO.parse(fileContent);
+      const po = parsePO(fileContent);
       const stats = await fs.stat(absolutePath);
 
-      const entries: TranslationEntry[] = po.items.map((item: any) => ({
-        msgid: item.msgid,
-        msgstr: this.normalizeMsgstr(item.msgstr),
-        msgid_plural: item.msgid_plural || undefined,
-        msgctxt: item.msgctxt ? item.msgctxt : undefined,
-        comments: item.extractedComments || [],
-        flags: this.normalizeFlags(item.flags),
-        references: item.references || [],
-        obsolete: item.obsolete || false
+      const entries: TranslationEntry[] = po.entries.map(entry => ({
+        ...entry,
+        msgstr: this.normalizeMsgstr(entry.msgstr),
+        translatorComments: entry.translatorComments || [],
+        comments: entry.comments || [],
+        flags: this.normalizeFlags(entry.flags),
+        references: entry.references || [],
+        obsolete: entry.obsolete || false
       }));
 
+      const { language, domain } = this.detectLocale(absolutePath, po.headers);
+
+      const nplurals = this.parsePluralCount(po.headers['Plural-Forms']);
+
       const poFile: POFile = {
         path: absolutePath,
         headers: po.headers,
+        headerComments: po.headerComments,
+        headerFlags: po.headerFlags,
         entries,
-        lastModified: stats.mtime
+        ...(nplurals !== undefined && { nplurals }),
+        lastModified: stats.mtime,
+        contentHash: this.hashContent(fileContent),
+        ...(language !== undefined && { language }),
+        ...(domain !== undefined && { domain })
       };
 
+      const isNew = !this.loadedFiles.has(absolutePath);
       this.loadedFiles.set(absolutePath, poFile);
+      this.layouts.set(absolutePath, po.layout);
+      this.baselines.set(absolutePath, fileContent);
+      this.watchFile(absolutePath);
+      this.changeListeners.forEach(listener => listener(absolutePath, isNew));
       return poFile;
     } catch (error) {
       if (error instanceof Error) {
         if ((error as any).code === 'ENOENT') {
           throw new Error(`File not found: ${filePath}. Use load_po_file with correct file path first.`);
         }
-        if (error.message.includes('Unexpected token')) {
-          throw new Error(`Invalid PO file format: ${filePath}. Check file syntax.`);
+        if (error.message.includes('Unexpected content')) {
+          throw new Error(`Invalid PO file format: ${filePath}. ${error.message}`);
         }
       }
       throw new Error(`Failed to load PO file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Writes a new catalog and loads it (msginit equivalent). Entries come
+   * from the template with empty translations; the given headers are added
+   * to the template's. Existing files are never replaced.
+   */
+  public async createPOFile(filePath: string, options: { templatePath?: string; headers: Record<string, string> }): Promise<POFile> {
+    const absolutePath = path.resolve(filePath);
+    const problems = validateHeaders(options.headers);
+    if (problems.length > 0) {
+      throw new Error(`Invalid headers for ${filePath}: ${problems.join('; ')}`);
+    }
+    let template: ParsedPO | undefined;
+    if (options.templatePath !== undefined) {
+      try {
+        template = parsePO(await fs.readFile(path.resolve(options.templatePath), 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new Error(`Template not found: ${options.templatePath}.`);
+        }
+        throw error;
+      }
+    }
+
+    const headers: Record<string, string> = {
+      ...template?.headers,
+      'Content-Type': 'text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding': '8bit',
+      ...options.headers
+    };
+    const nplurals = this.parsePluralCount(headers['Plural-Forms']) ?? 2;
+    // Previous (#|) values and line numbers belong to the template's own file
+    const entries = (template?.entries ?? []).filter(entry => !entry.obsolete).map((entry): TranslationEntry => {
+      const flags = this.flagList(entry.flags).filter(flag => flag !== 'fuzzy');
+      return {
+        msgid: entry.msgid,
+        ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+        ...(entry.msgid_plural !== undefined && { msgid_plural: entry.msgid_plural }),
+        msgstr: entry.msgid_plural !== undefined ? new Array<string>(nplurals).fill('') : '',
+        ...(entry.translatorComments !== undefined && { translatorComments: entry.translatorComments }),
+        ...(entry.comments !== undefined && { comments: entry.comments }),
+        ...(entry.references !== undefined && { references: entry.references }),
+        ...(flags.length > 0 && { flags })
+      };
+    });
+    const content = serializePO({
+      headers,
+      headerComments: template?.headerComments ?? [],
+      // Templates mark their header fuzzy until it is filled in, which happens here
+      headerFlags: (template?.headerFlags ?? []).filter(flag => flag !== 'fuzzy'),
+      entries,
+      nplurals
+    });
+
+    try {
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, content, { encoding: 'utf-8', flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new Error(`File already exists: ${filePath}. Use load_po_file to work with it.`);
+      }
+      throw new Error(`Failed to create PO file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return await this.loadPOFile(absolutePath);
+  }
+
+  /**
+   * Sets header fields in memory (undefined removes one) and updates the
+   * language and plural count derived from them. Invalid values are
+   * rejected before anything changes, unless validate is false (for putting
+   * back values that were loaded). Call savePOFile to write.
+   */
+  public setHeaders(filePath: string, headers: Record<string, string | undefined>, options: { validate?: boolean } = {}): POFile {
+    const absolutePath = path.resolve(filePath);
+    const poFile = this.loadedFiles.get(absolutePath);
+    if (!poFile) {
+      throw new Error(`File not loaded: ${filePath}. Use load_po_file first.`);
+    }
+    const problems = options.validate === false ? [] : validateHeaders(headers);
+    if (problems.length > 0) {
+      throw new Error(`Invalid headers for ${filePath}: ${problems.join('; ')}`);
+    }
+
+    Object.entries(headers).forEach(([key, value]) => {
+      if (value === undefined) {
+        delete poFile.headers[key];
+      } else {
+        poFile.headers[key] = value;
+      }
+    });
+    const nplurals = this.parsePluralCount(poFile.headers['Plural-Forms']);
+    const { language } = this.detectLocale(absolutePath, poFile.headers);
+    if (nplurals !== undefined) poFile.nplurals = nplurals; else delete poFile.nplurals;
+    if (language !== undefined) poFile.language = language; else delete poFile.language;
+    return poFile;
+  }
+
   public async findPOFiles(directory: string, pattern: string = '**/*.po'): Promise<string[]> {
     try {
       const searchPattern = path.join(directory, pattern);
@@ -68,185 +218,191 @@ export class POFileService {
     }
   }
 
+  /**
+   * Writes the in-memory catalog. If the file changed on disk since it was
+   * loaded, the in-memory edits are merged into the disk version; entries
+   * edited differently on both sides raise a SaveConflictError and nothing
+   * is written.
+   */
   public async savePOFile(filePath: string): Promise<void> {
-    const poFile = this.loadedFiles.get(path.resolve(filePath));
-    if (!poFile) {
-      throw new Error(`File not loaded: ${filePath}. Use load_po_file first.`);
-    }
+    await this.saveFiles([filePath]);
+  }
 
-    try {
-      // Create a new PO object and populate it with updated translations
-      const po = new PO();
-      
-      // Copy headers from the original file
-      po.headers = { ...poFile.headers };
-      
-      // Add all entries to the PO object
-      poFile.entries.forEach(entry => {
-        const item = new (PO as any).Item();
-        item.msgid = entry.msgid;
-        item.msgstr = entry.msgstr;
-        
-        if (entry.msgid_plural) {
-          item.msgid_plural = entry.msgid_plural;
-        }
-        
-        if (entry.msgctxt) {
-          item.msgctxt = entry.msgctxt;
-        }
-        
-        if (entry.comments && entry.comments.length > 0) {
-          item.extractedComments = entry.comments;
-        }
-        
-        if (entry.references && entry.references.length > 0) {
-          item.references = entry.references;
-        }
-        
-        if (entry.flags) {
-          if (Array.isArray(entry.flags)) {
-            entry.flags.forEach(flag => {
-              if (!item.flags) item.flags = {};
-              item.flags[flag] = true;
-            });
-          } else {
-            item.flags = { ...entry.flags };
-          }
-        }
-        
-        if (entry.obsolete) {
-          item.obsolete = entry.obsolete;
-        }
-        
-        po.items.push(item);
-      });
+  /**
+   * Saves several catalogs as one unit. Every file is rendered and written
+   * to a temporary file next to it before any of them is renamed into place;
+   * if a rename fails, the files already replaced get their previous content
+   * back. Either all files are written or none.
+   */
+  public async saveFiles(filePaths: string[], options: { action?: JournalChange['action'] } = {}): Promise<JournalChange[]> {
+    const poFiles = Array.from(new Set(filePaths.map(filePath => path.resolve(filePath)))).map(absolutePath => {
+      const poFile = this.loadedFiles.get(absolutePath);
+      if (!poFile) {
+        throw new Error(`File not loaded: ${absolutePath}. Use load_po_file first.`);
+      }
+      return poFile;
+    });
 
-      // Save the PO file using the pofile library
-      await fs.writeFile(poFile.path, po.toString(), 'utf-8');
-      
-      // Now run pybabel update to properly format the file
-      await this.runPyBabelUpdate(poFile.path);
-      
-      // Reload the file to get the properly formatted version
-      await this.loadPOFile(filePath);
+    const prepared: { poFile: POFile; tempPath: string; previous: string }[] = [];
+    const changes = poFiles.flatMap(poFile => this.diffAgainstBaseline(poFile));
+    let current = poFiles[0]?.path ?? '';
+    try {
+      for (const poFile of poFiles) {
+        current = poFile.path;
+        const { output, previous } = await this.render(poFile, this.revisionHeaders(poFile));
+        const tempPath = path.join(path.dirname(poFile.path), `.${path.basename(poFile.path)}.${process.pid}.${Date.now()}.tmp`);
+        prepared.push({ poFile, tempPath, previous });
+        await fs.writeFile(tempPath, output, 'utf-8');
+        const { mode } = await fs.stat(poFile.path).catch(() => ({ mode: undefined }));
+        if (mode !== undefined) await fs.chmod(tempPath, mode);
+      }
     } catch (error) {
-      throw new Error(`Failed to save PO file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await Promise.all(prepared.map(({ tempPath }) => fs.rm(tempPath, { force: true })));
+      if (error instanceof SaveConflictError) throw error;
+      throw new Error(`Failed to save PO file ${current}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }
 
-  private async runPyBabelUpdate(poFilePath: string): Promise<void> {
+    const renamed: typeof prepared = [];
     try {
-      // Extract the directory structure to find locales directory and POT file
-      const poDir = path.dirname(poFilePath);
-      const fileName = path.basename(poFilePath);
-      
-      // Common patterns for locales directory structure:
-      // 1. locales/lang/LC_MESSAGES/messages.po
-      // 2. locales/lang/messages.po
-      // 3. lang/LC_MESSAGES/messages.po
-      
-      let localesDir = '';
-      let domain = '';
-      let potFile = '';
-      
-      // Try to detect the structure
-      if (poDir.includes('locales')) {
-        // Find the locales directory
-        const parts = poDir.split(path.sep);
-        const localesIndex = parts.findIndex(part => part === 'locales');
-        if (localesIndex >= 0) {
-          localesDir = parts.slice(0, localesIndex + 1).join(path.sep);
-          domain = path.parse(fileName).name; // e.g., 'messages' from 'messages.po'
-          potFile = path.join(localesDir, `${domain}.pot`);
-        }
-      }
-      
-      // If we couldn't detect the structure, try some common defaults
-      if (!localesDir) {
-        // Look for a locales directory in parent directories
-        let currentDir = poDir;
-        for (let i = 0; i < 5; i++) {
-          const testLocalesDir = path.join(currentDir, 'locales');
-          try {
-            const stat = await fs.stat(testLocalesDir);
-            if (stat.isDirectory()) {
-              localesDir = testLocalesDir;
-              domain = path.parse(fileName).name;
-              potFile = path.join(localesDir, `${domain}.pot`);
-              break;
-            }
-          } catch {
-            // Directory doesn't exist, try parent
-            currentDir = path.dirname(currentDir);
-          }
-        }
-      }
-      
-      // Only run pybabel if we found a proper structure
-      if (localesDir && domain) {
-        // Check if POT file exists
-        try {
-          await fs.access(potFile);
-          
-          // Run pybabel update command
-          const command = `pybabel update -d "${localesDir}" -D ${domain} -i "${potFile}"`;
-          
-          const { stdout, stderr } = await execAsync(command, {
-            cwd: path.dirname(localesDir)
-          });
-          
-          if (stderr && !stderr.includes('updating catalog')) {
-            console.warn(`pybabel update warning: ${stderr}`);
-          }
-          
-        } catch (error) {
-          // POT file doesn't exist or pybabel command failed
-          // This is not necessarily an error - just log it
-          console.warn(`pybabel update skipped: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+      for (const item of prepared) {
+        current = item.poFile.path;
+        await fs.rename(item.tempPath, item.poFile.path);
+        renamed.push(item);
       }
-      
     } catch (error) {
-      // Don't throw here - pybabel formatting is optional
-      console.warn(`pybabel update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await Promise.all(prepared.filter(item => !renamed.includes(item)).map(({ tempPath }) => fs.rm(tempPath, { force: true })));
+      await Promise.all(renamed.map(({ poFile, previous }) => fs.writeFile(poFile.path, previous, 'utf-8').catch(() => undefined)));
+      throw new Error(`Failed to save PO file ${current}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // Reload the files to refresh line numbers and modification time
+    for (const { poFile } of prepared) {
+      await this.loadPOFile(poFile.path);
+    }
+    if (!this.options.journal) return [];
+    try {
+      return await this.options.journal.record(changes, options.action ?? 'edit');
+    } catch (error) {
+      // The files are saved; a journal that cannot be written must not turn that into a failure
+      this.warnings.push(`The change was saved but not recorded in the change journal, so it cannot be undone: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
     }
   }
 
+  /**
+   * Puts an entry's msgstr and flags back to earlier values, as recorded in
+   * the change journal. Returns false if the entry no longer exists.
+   */
+  public restoreEntry(change: Pick<JournalChange, 'file' | 'msgid' | 'msgctxt'>, msgstr: string | string[], flags: string[]): boolean {
+    const poFile = this.loadedFiles.get(change.file);
+    const entry = poFile?.entries.find(candidate =>
+      candidate.msgid === change.msgid && candidate.msgctxt === change.msgctxt && !candidate.obsolete
+    );
+    if (!entry) return false;
+    entry.msgstr = Array.isArray(msgstr) ? [...msgstr] : msgstr;
+    entry.flags = [...flags];
+    return true;
+  }
+
+  /**
+   * The msgstr/flags differences between the in-memory catalog and the
+   * file as loaded, in journal form.
+   */
+  private diffAgainstBaseline(poFile: POFile): Omit<JournalChange, 'id' | 'batch' | 'action' | 'timestamp' | 'session' | 'author'>[] {
+    if (!this.options.journal) return [];
+    const base = new Map(parsePO(this.baselines.get(poFile.path) ?? '').entries.map(entry => [layoutKey(entry), entry]));
+
+    return poFile.entries.flatMap(entry => {
+      const before = base.get(layoutKey(entry));
+      if (!before) return [];
+      const oldMsgstr = this.normalizeMsgstr(before.msgstr);
+      const oldFlags = this.flagList(before.flags);
+      const newFlags = this.flagList(entry.flags);
+      if (JSON.stringify(oldMsgstr) === JSON.stringify(entry.msgstr) && JSON.stringify(oldFlags) === JSON.stringify(newFlags)) {
+        return [];
+      }
+      return [{
+        file: poFile.path,
+        msgid: entry.msgid,
+        ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+        oldMsgstr,
+        newMsgstr: Array.isArray(entry.msgstr) ? [...entry.msgstr] : entry.msgstr,
+        oldFlags,
+        newFlags
+      }];
+    });
+  }
 
+  private flagList(flags: TranslationEntry['flags']): string[] {
+    if (!flags) return [];
+    return Array.isArray(flags) ? [...flags] : Object.keys(flags).filter(flag => flags[flag]);
+  }
+
+  /**
+   * Whether the in-memory catalog differs from the file as it was loaded.
+   */
+  public hasUnsavedChanges(filePath: string): boolean {
+    const absolutePath = path.resolve(filePath);
+    const poFile = this.loadedFiles.get(absolutePath);
+    if (!poFile) return false;
+    return serializePO(poFile, this.layouts.get(absolutePath)) !== this.baselines.get(absolutePath);
+  }
+
+  /**
+   * Returns the warnings collected since the last call and clears them.
+   */
+  public takeWarnings(): string[] {
+    return this.warnings.splice(0);
+  }
+
+  /**
+   * Reloads a catalog whose file changed on disk, unless it has unsaved
+   * edits (those are merged on the next save). Returns whether it reloaded.
+   */
+  public async refreshIfUnmodified(filePath: string): Promise<boolean> {
+    const poFile = this.loadedFiles.get(path.resolve(filePath));
+    if (!poFile || this.hasUnsavedChanges(poFile.path)) return false;
+    if ((await this.readIfChanged(poFile)) === undefined) return false;
+    await this.loadPOFile(poFile.path);
+    return true;
+  }
 
   public searchTranslations(options: SearchOptions): TranslationSearchResult[] {
     const results: TranslationSearchResult[] = [];
     const { query, searchIn, caseSensitive = false, regex = false, limit } = options;
 
+    // No 'g' flag: RegExp.test() keeps lastIndex between calls on a global pattern
     let searchPattern: RegExp;
     try {
       if (regex) {
-        searchPattern = new RegExp(query, caseSensitive ? 'g' : 'gi');
+        searchPattern = new RegExp(query, caseSensitive ? '' : 'i');
       } else {
         const escapedQuery = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        searchPattern = new RegExp(escapedQuery, caseSensitive ? 'g' : 'gi');
+        searchPattern = new RegExp(escapedQuery, caseSensitive ? '' : 'i');
       }
     } catch (error) {
       throw new Error(`Invalid search pattern: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    for (const [filePath, poFile] of this.loadedFiles) {
+    const fields = this.resolveSearchFields(searchIn);
+
+    for (const poFile of this.resolveFiles(options)) {
+      const nplurals = poFile.nplurals ?? 2;
       poFile.entries.forEach(entry => {
-        const shouldInclude = this.shouldIncludeEntry(entry, options);
+        const shouldInclude = this.shouldIncludeEntry(entry, options, nplurals);
         if (!shouldInclude) return;
 
-        let matches = false;
-        if (searchIn === 'msgid' || searchIn === 'both') {
-          matches = searchPattern.test(entry.msgid);
-        }
-        if (!matches && (searchIn === 'msgstr' || searchIn === 'both')) {
-          matches = searchPattern.test(this.getMsgstrAsString(entry.msgstr));
-        }
+        const matchedIn = fields.filter(field =>
+          this.getSearchableText(entry, field).some(text => searchPattern.test(text))
+        );
 
-        if (matches) {
+        if (matchedIn.length > 0) {
           results.push({
+            id: this.entryId(poFile.path, entry),
             entry,
-            file: filePath
+            file: poFile.path,
+            ...(entry.lineNumber !== undefined && { lineNumber: entry.lineNumber }),
+            matchedIn
           });
         }
       });
@@ -260,85 +416,396 @@ export class POFileService {
     return results;
   }
 
-  public getTranslationStats(filePath?: string): TranslationStats {
-    let entries: TranslationEntry[] = [];
-
-    if (filePath) {
-      const poFile = this.loadedFiles.get(path.resolve(filePath));
-      if (!poFile) {
-        throw new Error(`File not loaded: ${filePath}. Use load_po_file first.`);
-      }
-      entries = poFile.entries;
-    } else {
-      // Get stats for all loaded files
-      if (this.loadedFiles.size === 0) {
-        throw new Error(`No files loaded. Use load_po_file first.`);
-      }
-      for (const poFile of this.loadedFiles.values()) {
-        entries.push(...poFile.entries);
-      }
+  public getTranslationStats(filter: CatalogFilter = {}): TranslationStats {
+    if (this.loadedFiles.size === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
     }
 
     const stats: TranslationStats = {
-      total: entries.length,
+      total: 0,
       translated: 0,
       untranslated: 0,
       fuzzy: 0,
-      obsolete: 0
+      obsolete: 0,
+      incompletePlurals: 0
     };
 
-    entries.forEach(entry => {
-      if (entry.obsolete) {
-        stats.obsolete++;
-      } else if (this.hasFlag(entry.flags, 'fuzzy')) {
-        stats.fuzzy++;
-      } else if (this.getMsgstrAsString(entry.msgstr).trim() !== '') {
-        stats.translated++;
-      } else {
-        stats.untranslated++;
-      }
-    });
+    for (const poFile of this.resolveFiles(filter)) {
+      const nplurals = poFile.nplurals ?? 2;
+      stats.total += poFile.entries.length;
+
+      poFile.entries.forEach(entry => {
+        if (entry.obsolete) {
+          stats.obsolete++;
+        } else if (this.hasFlag(entry.flags, 'fuzzy')) {
+          stats.fuzzy++;
+        } else if (this.isTranslated(entry, nplurals)) {
+          stats.translated++;
+        } else {
+          stats.untranslated++;
+          if (this.isPartiallyTranslated(entry)) {
+            stats.incompletePlurals++;
+          }
+        }
+      });
+    }
 
     return stats;
   }
 
-  public updateTranslation(request: UpdateTranslationRequest): boolean {
+  public updateTranslation(request: UpdateTranslationRequest, options: { fuzzy?: boolean } = {}): boolean {
+    const entry = this.findEntry(request);
+    this.assertPluralShape(request);
+
+    entry.msgstr = request.msgstr;
+    // Remove fuzzy flag when translation is updated, unless the caller wants it reviewed
+    if (request.fuzzy ?? options.fuzzy) {
+      this.addFlag(entry, 'fuzzy');
+    } else {
+      this.clearFuzzy(entry);
+    }
+    if (request.comment) {
+      this.addTranslatorComment(entry, request.comment);
+    }
+
+    return true;
+  }
+
+  /**
+   * Adds and removes flags on an entry. Removing fuzzy also drops the
+   * previous-msgid (#|) lines, which only describe why it was fuzzy.
+   */
+  public setFlags(request: FlagUpdateRequest): TranslationEntry {
+    const entry = this.findEntry(request);
+    const invalid = [...(request.add ?? []), ...(request.remove ?? [])].find(flag => !/^[A-Za-z0-9_-]+$/.test(flag));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid flag "${invalid}". Flags are single words such as fuzzy, c-format or no-wrap.`);
+    }
+
+    (request.remove ?? []).forEach(flag => (flag === 'fuzzy' ? this.clearFuzzy(entry) : this.removeFlag(entry, flag)));
+    (request.add ?? []).forEach(flag => this.addFlag(entry, flag));
+    if (request.comment) {
+      this.addTranslatorComment(entry, request.comment);
+    }
+    return entry;
+  }
+
+  /**
+   * Clears the translation of an entry, for rejected suggestions.
+   */
+  public clearTranslation(request: EntryReference, comment?: string): TranslationEntry {
+    const entry = this.findEntry(request);
+    const nplurals = this.resolveFiles({ filePath: request.filePath })[0]?.nplurals ?? 2;
+    entry.msgstr = entry.msgid_plural !== undefined ? Array.from({ length: nplurals }, () => '') : '';
+    this.clearFuzzy(entry);
+    if (comment) {
+      this.addTranslatorComment(entry, comment);
+    }
+    return entry;
+  }
+
+  /**
+   * Checks that msgstr is a string for singular entries and an array of
+   * exactly nplurals forms for plural ones.
+   */
+  public assertPluralShape(request: UpdateTranslationRequest): void {
+    const entry = this.findEntry(request);
+    const poFile = this.resolveFiles({ filePath: request.filePath })[0]!;
+    const { msgstr } = request;
+    const nplurals = poFile.nplurals ?? 2;
+    if (entry.msgid_plural === undefined) {
+      if (Array.isArray(msgstr)) {
+        throw new Error(`"${entry.msgid}" has no plural forms. Pass msgstr as a string.`);
+      }
+      return;
+    }
+    if (!Array.isArray(msgstr)) {
+      throw new Error(`"${entry.msgid}" has plural forms. Pass msgstr as an array of ${nplurals} strings (Plural-Forms: ${poFile.headers['Plural-Forms'] || 'not set'}).`);
+    }
+    if (msgstr.length !== nplurals) {
+      throw new Error(`"${entry.msgid}" needs exactly ${nplurals} plural forms, got ${msgstr.length}.`);
+    }
+  }
+
+  /**
+   * Stable id of an entry: a hash of the catalog path, msgctxt and msgid.
+   * It survives reloads and changes to the translation.
+   */
+  public entryId(filePath: string, entry: Pick<TranslationEntry, 'msgid' | 'msgctxt'>): string {
+    const absolutePath = path.resolve(filePath);
+    const id = createHash('sha256').update(JSON.stringify([absolutePath, entry.msgctxt ?? null, entry.msgid])).digest('hex').slice(0, 16);
+    this.entryIds.set(id, { filePath: absolutePath, msgid: entry.msgid, ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }) });
+    return id;
+  }
+
+  public findEntryById(id: string): EntryReference {
+    const known = this.entryIds.get(id);
+    if (known && this.loadedFiles.get(known.filePath)?.entries.some(entry => !entry.obsolete && entry.msgid === known.msgid && entry.msgctxt === known.msgctxt)) {
+      return known;
+    }
+    for (const poFile of this.loadedFiles.values()) {
+      const entry = poFile.entries.find(candidate => !candidate.obsolete && this.entryId(poFile.path, candidate) === id);
+      if (entry) return this.entryIds.get(id)!;
+    }
+    throw new Error(`Entry not found: ${id}. Entry ids come from search_translations, get_untranslated_strings and get_fuzzy_translations; the file must be loaded.`);
+  }
+
+  public findEntry(request: Pick<UpdateTranslationRequest, 'filePath' | 'msgid' | 'msgctxt'>): TranslationEntry {
     const poFile = this.loadedFiles.get(path.resolve(request.filePath));
     if (!poFile) {
       throw new Error(`File not loaded: ${request.filePath}. Use load_po_file first.`);
     }
 
-    const entryIndex = poFile.entries.findIndex(entry => 
+    const entry = poFile.entries.find(entry => 
       entry.msgid === request.msgid && 
       (entry.msgctxt === request.msgctxt || (!entry.msgctxt && !request.msgctxt))
     );
 
-    if (entryIndex === -1) {
+    if (!entry) {
       throw new Error(`Translation not found: "${request.msgid}". Check msgid and msgctxt.`);
     }
+    return entry;
+  }
 
-    poFile.entries[entryIndex]!.msgstr = request.msgstr;
-    // Remove fuzzy flag when translation is updated
-    this.removeFlag(poFile.entries[entryIndex]!, 'fuzzy');
+  public getPluralForms(filePath: string): PluralForms {
+    const poFile = this.resolveFiles({ filePath })[0]!;
+    try {
+      return parsePluralForms(poFile.headers['Plural-Forms']);
+    } catch (error) {
+      throw new Error(`${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-    return true;
+  /**
+   * Indexes of the plural forms that are still empty. Always empty for
+   * singular entries.
+   */
+  public getMissingPluralForms(entry: TranslationEntry, nplurals: number): number[] {
+    if (entry.msgid_plural === undefined) return [];
+    const forms = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+    const missing: number[] = [];
+    for (let index = 0; index < Math.max(nplurals, forms.length); index++) {
+      if ((forms[index] ?? '').trim() === '') missing.push(index);
+    }
+    return missing;
   }
 
   public getLoadedFiles(): string[] {
     return Array.from(this.loadedFiles.keys());
   }
 
+  public getLoadedPOFiles(filter: CatalogFilter = {}): POFile[] {
+    return this.resolveFiles(filter);
+  }
+
+  /**
+   * Selects loaded files by path, language and/or domain. Without any
+   * criteria every loaded file is returned.
+   */
+  public resolveFiles(filter: CatalogFilter): POFile[] {
+    const { filePath, language, domain } = filter;
+    let files: POFile[];
+
+    if (filePath) {
+      const poFile = this.loadedFiles.get(path.resolve(filePath));
+      if (!poFile) {
+        throw new Error(`File not loaded: ${filePath}. Use load_po_file first.`);
+      }
+      files = [poFile];
+    } else {
+      files = Array.from(this.loadedFiles.values());
+    }
+
+    if (language) {
+      const wanted = this.normalizeLanguage(language);
+      files = files.filter(file => file.language !== undefined && this.normalizeLanguage(file.language) === wanted);
+    }
+    if (domain) {
+      files = files.filter(file => file.domain === domain);
+    }
+
+    if ((language || domain) && files.length === 0) {
+      const criteria = [language && `language "${language}"`, domain && `domain "${domain}"`].filter(Boolean).join(' and ');
+      throw new Error(`No loaded files match ${criteria}. Use get_loaded_files to see available catalogs.`);
+    }
+
+    return files;
+  }
+
   public isFileLoaded(filePath: string): boolean {
     return this.loadedFiles.has(path.resolve(filePath));
   }
 
-  private shouldIncludeEntry(entry: TranslationEntry, options: SearchOptions): boolean {
+  /**
+   * Renders the catalog for saving, merged into the disk version when the
+   * file changed since it was loaded. previous is the current disk content.
+   * The given headers are applied after merging, so they never conflict.
+   */
+  private async render(poFile: POFile, headers: Record<string, string> = {}): Promise<{ output: string; previous: string }> {
+    const baseline = this.baselines.get(poFile.path) ?? '';
+    const diskContent = await this.readIfChanged(poFile);
+    if (diskContent === undefined) {
+      return { output: serializePO({ ...poFile, headers: { ...poFile.headers, ...headers } }, this.layouts.get(poFile.path)), previous: baseline };
+    }
+
+    const base = parsePO(baseline);
+    const theirs = parsePO(diskContent);
+    const nplurals = this.parsePluralCount(theirs.headers['Plural-Forms']);
+    const { merged, conflicts } = mergeCatalogs(base, poFile, { ...theirs, ...(nplurals !== undefined && { nplurals }) });
+    if (conflicts.length > 0) {
+      const keys = conflicts.map(conflict => conflict.kind === 'header' ? `header ${conflict.key}` : `"${conflict.key}"`);
+      throw new SaveConflictError(
+        `${poFile.path} was changed on disk and ${conflicts.length} ${conflicts.length === 1 ? 'entry conflicts' : 'entries conflict'} with unsaved edits: ${keys.join(', ')}. ` +
+        `Use load_po_file to discard the unsaved edits and reload the file.`,
+        poFile.path,
+        conflicts
+      );
+    }
+    return { output: serializePO({ ...merged, headers: { ...merged.headers, ...headers } }, theirs.layout), previous: diskContent };
+  }
+
+  /**
+   * PO-Revision-Date, and Last-Translator when a translator is configured,
+   * for a catalog whose entries changed since it was loaded. Templates keep
+   * their placeholder values.
+   */
+  private revisionHeaders(poFile: POFile): Record<string, string> {
+    if (path.extname(poFile.path) === '.pot') return {};
+    const base = parsePO(this.baselines.get(poFile.path) ?? '').entries;
+    const fingerprints = new Map(base.map(entry => [layoutKey(entry), fingerprintEntry(entry)]));
+    const changed = base.length !== poFile.entries.length ||
+      poFile.entries.some(entry => fingerprints.get(layoutKey(entry)) !== fingerprintEntry(entry));
+    if (!changed) return {};
+    return {
+      'PO-Revision-Date': formatPODate(new Date()),
+      ...(this.options.translator !== undefined && { 'Last-Translator': this.options.translator })
+    };
+  }
+
+  /**
+   * Returns the file content when it differs from the loaded version. The
+   * mtime check avoids reading files nobody touched; the hash ignores
+   * touches that left the content alone. Missing files count as unchanged.
+   */
+  private async readIfChanged(poFile: POFile): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(poFile.path);
+      if (stats.mtime.getTime() === poFile.lastModified.getTime()) return undefined;
+      const content = await fs.readFile(poFile.path, 'utf-8');
+      return this.hashContent(content) === poFile.contentHash ? undefined : content;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  private hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  private watchFile(absolutePath: string): void {
+    if (!this.options.watch || this.watchers.has(absolutePath)) return;
+
+    try {
+      const watcher = watch(absolutePath, { persistent: false }, eventType => {
+        // Editors that save by renaming replace the inode, so watch the new file
+        if (eventType === 'rename') {
+          watcher.close();
+          this.watchers.delete(absolutePath);
+        }
+        clearTimeout(this.refreshTimers.get(absolutePath));
+        this.refreshTimers.set(absolutePath, setTimeout(() => {
+          this.refreshTimers.delete(absolutePath);
+          this.refreshIfUnmodified(absolutePath)
+            .catch(error => this.warnings.push(`${absolutePath} changed on disk but could not be reloaded, so the loaded copy is out of date: ${error instanceof Error ? error.message : 'Unknown error'}. Fix the file and call load_po_file again.`))
+            .finally(() => this.watchFile(absolutePath));
+        }, 200));
+      });
+      watcher.on('error', () => {
+        watcher.close();
+        this.watchers.delete(absolutePath);
+      });
+      this.watchers.set(absolutePath, watcher);
+    } catch {
+      // The file disappeared between load and watch; nothing to watch
+    }
+  }
+
+  private resolveSearchFields(searchIn: SearchOptions['searchIn']): SearchField[] {
+    switch (searchIn) {
+      case 'both':
+        return ['msgid', 'msgstr'];
+      case 'all':
+        return ['msgid', 'msgstr', 'msgctxt', 'comments', 'references'];
+      default:
+        return [searchIn];
+    }
+  }
+
+  private getSearchableText(entry: TranslationEntry, field: SearchField): string[] {
+    switch (field) {
+      case 'msgid':
+        return entry.msgid_plural ? [entry.msgid, entry.msgid_plural] : [entry.msgid];
+      case 'msgstr':
+        return Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+      case 'msgctxt':
+        return entry.msgctxt !== undefined ? [entry.msgctxt] : [];
+      case 'comments':
+        return entry.comments || [];
+      case 'references':
+        return entry.references || [];
+    }
+  }
+
+  /**
+   * Works out language and domain for a catalog. The Language header wins;
+   * otherwise the gettext layout <lang>/LC_MESSAGES/<domain>.po is used, then
+   * <lang>.po and <lang>/<domain>.po.
+   */
+  private detectLocale(filePath: string, headers: Record<string, string | undefined>): { language?: string; domain?: string } {
+    const baseName = path.basename(filePath, path.extname(filePath));
+    const parentDir = path.basename(path.dirname(filePath));
+    const headerLanguage = headers['Language']?.trim();
+
+    let pathLanguage: string | undefined;
+    let domain: string | undefined = baseName;
+
+    if (parentDir === 'LC_MESSAGES') {
+      pathLanguage = path.basename(path.dirname(path.dirname(filePath)));
+    } else if (this.looksLikeLocale(baseName)) {
+      pathLanguage = baseName;
+      domain = undefined;
+    } else if (this.looksLikeLocale(parentDir)) {
+      pathLanguage = parentDir;
+    }
+
+    const language = headerLanguage || pathLanguage;
+    return {
+      ...(language && { language }),
+      ...(domain && { domain })
+    };
+  }
+
+  private parsePluralCount(pluralForms: string | undefined): number | undefined {
+    const match = pluralForms?.match(/nplurals\s*=\s*(\d+)/);
+    return match?.[1] ? parseInt(match[1], 10) : undefined;
+  }
+
+  private looksLikeLocale(name: string): boolean {
+    return /^[a-z]{2,3}([_-][A-Za-z0-9]{2,8})*(@[A-Za-z0-9]+)?$/.test(name);
+  }
+
+  private normalizeLanguage(language: string): string {
+    return language.trim().replace(/-/g, '_').toLowerCase();
+  }
+
+  private shouldIncludeEntry(entry: TranslationEntry, options: SearchOptions, nplurals: number): boolean {
     const { includeUntranslated = true, includeTranslated = true, includeFuzzy = true } = options;
 
     if (entry.obsolete) return false;
 
     const isFuzzy = this.hasFlag(entry.flags, 'fuzzy');
-    const isTranslated = this.getMsgstrAsString(entry.msgstr).trim() !== '';
+    const isTranslated = this.isTranslated(entry, nplurals);
 
     if (isFuzzy && !includeFuzzy) return false;
     if (isTranslated && !isFuzzy && !includeTranslated) return false;
@@ -347,6 +814,20 @@ export class POFileService {
     return true;
   }
 
+  /**
+   * An entry counts as translated only when every plural form is filled in.
+   */
+  private isTranslated(entry: TranslationEntry, nplurals: number): boolean {
+    if (entry.msgid_plural !== undefined) {
+      return this.getMissingPluralForms(entry, nplurals).length === 0;
+    }
+    return this.getMsgstrAsString(entry.msgstr).trim() !== '';
+  }
+
+  private isPartiallyTranslated(entry: TranslationEntry): boolean {
+    return Array.isArray(entry.msgstr) && entry.msgstr.some(form => form.trim() !== '');
+  }
+
   private hasFlag(flags: string[] | Record<string, boolean> | undefined, flagName: string): boolean {
     if (!flags) return false;
     
@@ -357,6 +838,30 @@ export class POFileService {
     }
   }
 
+  private clearFuzzy(entry: TranslationEntry): void {
+    this.removeFlag(entry, 'fuzzy');
+    delete entry.previousMsgid;
+    delete entry.previousMsgidPlural;
+    delete entry.previousMsgctxt;
+  }
+
+  private addTranslatorComment(entry: TranslationEntry, comment: string): void {
+    const lines = comment.split('\n').map(line => line.trimEnd());
+    const existing = entry.translatorComments ?? [];
+    if (lines.every(line => existing.includes(line))) return;
+    entry.translatorComments = [...existing, ...lines];
+  }
+
+  private addFlag(entry: TranslationEntry, flagName: string): void {
+    if (!entry.flags) {
+      entry.flags = [flagName];
+    } else if (Array.isArray(entry.flags)) {
+      if (!entry.flags.includes(flagName)) entry.flags.push(flagName);
+    } else {
+      entry.flags[flagName] = true;
+    }
+  }
+
   private removeFlag(entry: TranslationEntry, flagName: string): void {
     if (!entry.flags) return;
     
@@ -388,7 +893,7 @@ export class POFileService {
     
     // If it's an array (plural forms), keep as array but clean each string
     if (Array.isArray(msgstr)) {
-      return msgstr.map(str => (typeof str === 'string' ? str : String(str)));
+      return Array.from(msgstr as unknown[], str => (typeof str === 'string' ? str : String(str ?? '')));
     }
     
     // If it's a string, return as is
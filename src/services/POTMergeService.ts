@@ -0,0 +1,293 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { POFileService } from './POFileService.js';
+import {
+  POFile,
+  TranslationEntry,
+  MergeOptions,
+  MergeReport
+} from '../types/index.js';
+import { parsePO } from '../utils/poFormat.js';
+import { similarity } from '../utils/similarity.js';
+
+// Same cut-off msgmerge uses for its fuzzy search
+const FUZZY_THRESHOLD = 0.6;
+
+/**
+ * In-process equivalent of msgmerge: updates .po catalogs from a .pot
+ * template without running any external command.
+ */
+export class POTMergeService {
+  constructor(private poFileService: POFileService) {}
+
+  public async mergePot(options: MergeOptions): Promise<MergeReport[]> {
+    const template = await this.loadTemplate(options.potPath);
+    const targets = await this.resolveTargets(options);
+    const reports: MergeReport[] = [];
+
+    for (const poFile of targets) {
+      const { entries, report } = this.mergeCatalog(poFile, template.entries, options.fuzzyMatching ?? true);
+
+      if (!options.dryRun) {
+        await this.commitMerge(poFile, entries, template.headers['POT-Creation-Date']);
+        report.saved = true;
+      }
+      reports.push(report);
+    }
+
+    return reports;
+  }
+
+  /**
+   * Puts the merged entries into the catalog and saves it. If saving fails,
+   * the catalog's previous entries and headers are restored, so a later
+   * save does not write a merge that never reached the disk.
+   */
+  private async commitMerge(poFile: POFile, entries: TranslationEntry[], potCreationDate: string | undefined): Promise<void> {
+    const previousEntries = poFile.entries;
+    const previousHeaders = { ...poFile.headers };
+    try {
+      poFile.entries = entries;
+      if (potCreationDate) {
+        poFile.headers['POT-Creation-Date'] = potCreationDate;
+      }
+      await this.poFileService.savePOFile(poFile.path);
+    } catch (error) {
+      poFile.entries = previousEntries;
+      Object.keys(poFile.headers).forEach(key => delete poFile.headers[key]);
+      Object.assign(poFile.headers, previousHeaders);
+      throw error;
+    }
+  }
+
+  private async loadTemplate(potPath: string): Promise<{ headers: Record<string, string>; entries: TranslationEntry[] }> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.resolve(potPath), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Template not found: ${potPath}.`);
+      }
+      throw error;
+    }
+
+    const template = parsePO(content);
+    return { headers: template.headers, entries: template.entries.filter(entry => !entry.obsolete) };
+  }
+
+  private async resolveTargets(options: MergeOptions): Promise<POFile[]> {
+    if (options.poFiles && options.poFiles.length > 0) {
+      const targets: POFile[] = [];
+      for (const filePath of options.poFiles) {
+        if (!this.poFileService.isFileLoaded(filePath)) {
+          await this.poFileService.loadPOFile(filePath);
+        }
+        targets.push(...this.poFileService.resolveFiles({ filePath }));
+      }
+      return targets;
+    }
+
+    const { filePath, language } = options;
+    // Without an explicit selection, merge into catalogs of the template's domain
+    const domain = options.domain ?? (filePath ? undefined : path.basename(options.potPath, path.extname(options.potPath)));
+    const targets = this.poFileService.resolveFiles({
+      ...(filePath !== undefined && { filePath }),
+      ...(language !== undefined && { language }),
+      ...(domain !== undefined && { domain })
+    });
+    if (targets.length === 0) {
+      throw new Error(`No loaded catalogs to merge ${options.potPath} into. Pass poFiles or load the catalogs first.`);
+    }
+    return targets;
+  }
+
+  private mergeCatalog(
+    poFile: POFile,
+    templateEntries: TranslationEntry[],
+    fuzzyMatching: boolean
+  ): { entries: TranslationEntry[]; report: MergeReport } {
+    const report: MergeReport = {
+      file: poFile.path,
+      added: [],
+      obsoleted: [],
+      removed: [],
+      resurrected: [],
+      fuzzyMatched: [],
+      unchanged: 0,
+      saved: false
+    };
+    const nplurals = poFile.nplurals ?? 2;
+
+    const existing = new Map<string, TranslationEntry>();
+    poFile.entries.forEach(entry => {
+      const key = this.entryKey(entry);
+      const known = existing.get(key);
+      if (!known || (known.obsolete && !entry.obsolete)) {
+        existing.set(key, entry);
+      }
+    });
+
+    const templateKeys = new Set(templateEntries.map(entry => this.entryKey(entry)));
+    // Only entries whose msgid left the template are candidates for fuzzy matching
+    const candidates = poFile.entries.filter(entry =>
+      !entry.obsolete && !templateKeys.has(this.entryKey(entry)) && this.isTranslated(entry)
+    );
+    const used = new Set<TranslationEntry>();
+    const merged: TranslationEntry[] = [];
+
+    templateEntries.forEach(templateEntry => {
+      const match = existing.get(this.entryKey(templateEntry));
+
+      if (match) {
+        used.add(match);
+        // A new msgid_plural text needs review too, like msgmerge does
+        const pluralChanged = match.msgid_plural !== templateEntry.msgid_plural;
+        const fuzzy = this.hasFlag(match, 'fuzzy') || pluralChanged;
+        // Earlier #| lines still describe the text the translation was made for
+        const previous = match.previousMsgid !== undefined || !pluralChanged ? this.previousValues(match) : this.previousFrom(match);
+        merged.push({
+          ...this.fromTemplate(templateEntry, fuzzy),
+          translatorComments: match.translatorComments ?? [],
+          msgstr: this.adaptMsgstr(match.msgstr, templateEntry, nplurals),
+          ...(fuzzy && previous)
+        });
+
+        if (match.obsolete) {
+          report.resurrected.push(templateEntry.msgid);
+        } else {
+          report.unchanged++;
+        }
+        return;
+      }
+
+      const best = fuzzyMatching ? this.findFuzzyMatch(templateEntry, candidates) : undefined;
+      if (best) {
+        used.add(best.entry);
+        merged.push({
+          ...this.fromTemplate(templateEntry, true),
+          translatorComments: best.entry.translatorComments ?? [],
+          msgstr: this.adaptMsgstr(best.entry.msgstr, templateEntry, nplurals),
+          ...this.previousFrom(best.entry)
+        });
+        report.fuzzyMatched.push({
+          msgid: templateEntry.msgid,
+          ...(templateEntry.msgctxt !== undefined && { msgctxt: templateEntry.msgctxt }),
+          previousMsgid: best.entry.msgid,
+          similarity: Math.round(best.score * 100) / 100
+        });
+        return;
+      }
+
+      merged.push({
+        ...this.fromTemplate(templateEntry, false),
+        msgstr: templateEntry.msgid_plural !== undefined ? new Array<string>(nplurals).fill('') : ''
+      });
+      report.added.push(templateEntry.msgid);
+    });
+
+    const obsolete: TranslationEntry[] = [];
+    poFile.entries.forEach(entry => {
+      if (used.has(entry)) return;
+      if (entry.obsolete) {
+        obsolete.push(entry);
+      } else if (this.isTranslated(entry)) {
+        const obsoleteEntry: TranslationEntry = { ...entry, obsolete: true };
+        delete obsoleteEntry.references;
+        delete obsoleteEntry.lineNumber;
+        obsolete.push(obsoleteEntry);
+        report.obsoleted.push(entry.msgid);
+      } else {
+        report.removed.push(entry.msgid);
+      }
+    });
+
+    return { entries: [...merged, ...obsolete], report };
+  }
+
+  /**
+   * Builds the merged entry from the template side: msgid, context, plural,
+   * extracted comments, references and format flags always come from the .pot.
+   * Translator comments and the translation are carried over by the caller.
+   */
+  private fromTemplate(templateEntry: TranslationEntry, fuzzy: boolean): TranslationEntry {
+    const flags = this.flagList(templateEntry).filter(flag => flag !== 'fuzzy');
+    if (fuzzy) flags.unshift('fuzzy');
+
+    return {
+      msgid: templateEntry.msgid,
+      msgstr: '',
+      ...(templateEntry.msgctxt !== undefined && { msgctxt: templateEntry.msgctxt }),
+      ...(templateEntry.msgid_plural !== undefined && { msgid_plural: templateEntry.msgid_plural }),
+      comments: templateEntry.comments ?? [],
+      references: templateEntry.references ?? [],
+      flags,
+      obsolete: false
+    };
+  }
+
+  private previousValues(entry: TranslationEntry): Partial<TranslationEntry> {
+    return {
+      ...(entry.previousMsgid !== undefined && { previousMsgid: entry.previousMsgid }),
+      ...(entry.previousMsgidPlural !== undefined && { previousMsgidPlural: entry.previousMsgidPlural }),
+      ...(entry.previousMsgctxt !== undefined && { previousMsgctxt: entry.previousMsgctxt })
+    };
+  }
+
+  /**
+   * The #| fields recording an entry's current source text.
+   */
+  private previousFrom(entry: TranslationEntry): Partial<TranslationEntry> {
+    return {
+      previousMsgid: entry.msgid,
+      ...(entry.msgid_plural !== undefined && { previousMsgidPlural: entry.msgid_plural }),
+      ...(entry.msgctxt !== undefined && { previousMsgctxt: entry.msgctxt })
+    };
+  }
+
+  private findFuzzyMatch(
+    templateEntry: TranslationEntry,
+    candidates: TranslationEntry[]
+  ): { entry: TranslationEntry; score: number } | undefined {
+    let best: { entry: TranslationEntry; score: number } | undefined;
+    for (const candidate of candidates) {
+      if (candidate.msgctxt !== templateEntry.msgctxt) continue;
+      const score = similarity(candidate.msgid, templateEntry.msgid, FUZZY_THRESHOLD);
+      if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+        best = { entry: candidate, score };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Reshapes an existing translation to the template's singular/plural form.
+   */
+  private adaptMsgstr(msgstr: string | string[], templateEntry: TranslationEntry, nplurals: number): string | string[] {
+    if (templateEntry.msgid_plural === undefined) {
+      return Array.isArray(msgstr) ? msgstr[0] ?? '' : msgstr;
+    }
+    if (Array.isArray(msgstr)) {
+      return msgstr;
+    }
+    return [msgstr, ...new Array<string>(Math.max(nplurals - 1, 0)).fill('')];
+  }
+
+  private entryKey(entry: TranslationEntry): string {
+    return entry.msgctxt !== undefined ? `${entry.msgctxt}\u0004${entry.msgid}` : entry.msgid;
+  }
+
+  private isTranslated(entry: TranslationEntry): boolean {
+    const forms = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+    return forms.some(form => form.trim() !== '');
+  }
+
+  private hasFlag(entry: TranslationEntry, flag: string): boolean {
+    return this.flagList(entry).includes(flag);
+  }
+
+  private flagList(entry: TranslationEntry): string[] {
+    if (!entry.flags) return [];
+    const flags = entry.flags;
+    return Array.isArray(flags) ? [...flags] : Object.keys(flags).filter(flag => flags[flag]);
+  }
+}
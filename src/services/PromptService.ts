@@ -0,0 +1,167 @@
+import { TranslationService } from './TranslationService.js';
+import { FuzzyEntry, POFile, PromptDefinition, RenderedPrompt, UntranslatedEntry } from '../types/index.js';
+
+const DEFAULT_BATCH_SIZE = 20;
+
+const CATALOG_ARGUMENTS: PromptDefinition['arguments'] = [
+  { name: 'language', description: 'Target language code, e.g. de or pt_BR (default: every loaded catalog)' },
+  { name: 'filePath', description: 'Limit the batch to one loaded .po file' },
+  { name: 'batchSize', description: `Number of strings to include (default: ${DEFAULT_BATCH_SIZE})` }
+];
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'translate_next_batch',
+    description: 'Translate the next batch of untranslated strings, with the target language from the catalog headers, context and glossary hints',
+    arguments: CATALOG_ARGUMENTS
+  },
+  {
+    name: 'review_fuzzy',
+    description: 'Review the next batch of fuzzy translations and confirm or correct them',
+    arguments: CATALOG_ARGUMENTS
+  }
+];
+
+interface BatchItem {
+  poFile: POFile;
+  entry: (UntranslatedEntry & Partial<FuzzyEntry>) | (FuzzyEntry & Partial<UntranslatedEntry>);
+}
+
+/**
+ * Builds MCP prompts from the loaded catalogs. Each prompt lists the
+ * entries with everything a translator needs (context, comments, source
+ * references, plural rules, glossary terms) and ends with the tool call
+ * that stores the result.
+ */
+export class PromptService {
+  constructor(private translationService: TranslationService) {}
+
+  public listPrompts(): PromptDefinition[] {
+    return PROMPTS;
+  }
+
+  public getPrompt(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const batchSize = args['batchSize'] !== undefined ? Number(args['batchSize']) : DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`Invalid batchSize "${args['batchSize']}". Use a positive integer.`);
+    }
+    const files = this.translationService.getLoadedPOFiles({
+      ...(args['filePath'] !== undefined && { filePath: args['filePath'] }),
+      ...(args['language'] !== undefined && { language: args['language'] })
+    });
+    if (files.length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+
+    switch (name) {
+      case 'translate_next_batch':
+        return this.renderBatch(
+          this.collectBatch(files, batchSize, poFile => this.translationService.getUntranslatedStrings({ filePath: poFile.path }, { limit: batchSize }).entries),
+          'Translate',
+          'untranslated strings'
+        );
+      case 'review_fuzzy':
+        return this.renderBatch(
+          this.collectBatch(files, batchSize, poFile => this.translationService.getFuzzyTranslations({ filePath: poFile.path }, { limit: batchSize }).entries),
+          'Review',
+          'fuzzy translations'
+        );
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  }
+
+  private collectBatch(files: POFile[], batchSize: number, fetch: (poFile: POFile) => BatchItem['entry'][]): BatchItem[] {
+    const items: BatchItem[] = [];
+    for (const poFile of files) {
+      if (items.length >= batchSize) break;
+      let entries: BatchItem['entry'][];
+      try {
+        entries = fetch(poFile);
+      } catch {
+        // Nothing left to do in this catalog
+        continue;
+      }
+      entries.slice(0, batchSize - items.length).forEach(entry => items.push({ poFile, entry }));
+    }
+    return items;
+  }
+
+  private renderBatch(items: BatchItem[], verb: 'Translate' | 'Review', noun: string): RenderedPrompt {
+    if (items.length === 0) {
+      return { description: `No ${noun} left`, text: `There are no ${noun} in the selected catalogs. Nothing to do.` };
+    }
+
+    const sections: string[] = [];
+    const byFile = new Map<POFile, BatchItem[]>();
+    items.forEach(item => byFile.set(item.poFile, [...(byFile.get(item.poFile) ?? []), item]));
+
+    let number = 0;
+    for (const [poFile, fileItems] of byFile) {
+      const lines = [`## ${poFile.path}`, `Target language: ${this.describeLanguage(poFile.language)}`];
+      const plural = this.describePlurals(poFile);
+      if (plural) lines.push(plural);
+
+      fileItems.forEach(({ entry }) => {
+        number++;
+        lines.push('', `${number}. id: ${entry.id}`, `   msgid: ${JSON.stringify(entry.msgid)}`);
+        if (entry.msgid_plural !== undefined) lines.push(`   msgid_plural: ${JSON.stringify(entry.msgid_plural)}`);
+        if (entry.msgctxt !== undefined) lines.push(`   context: ${JSON.stringify(entry.msgctxt)}`);
+        if (verb === 'Review') {
+          lines.push(`   current translation: ${JSON.stringify(entry.msgstr)}`);
+          if (entry.msgidDiffText !== undefined) lines.push(`   source change since it was translated: ${entry.msgidDiffText}`);
+        }
+        if (entry.missingPluralForms) lines.push(`   missing plural forms: ${entry.missingPluralForms.join(', ')}`);
+        if (entry.comments && entry.comments.length > 0) lines.push(`   developer notes: ${entry.comments.join(' ')}`);
+        if (entry.translatorComments && entry.translatorComments.length > 0) lines.push(`   translator notes: ${entry.translatorComments.join(' ')}`);
+        if (entry.references && entry.references.length > 0) lines.push(`   used in: ${entry.references.join(', ')}`);
+        const terms = entry.glossaryTerms ?? this.translationService.getEntryGlossaryTerms(poFile.path, entry);
+        terms.forEach(term => lines.push(term.doNotTranslate
+          ? `   glossary: keep "${term.term}" untranslated`
+          : `   glossary: "${term.term}" → ${term.translations.map(value => `"${value}"`).join(' or ')}`));
+      });
+      sections.push(lines.join('\n'));
+    }
+
+    const intro = verb === 'Translate'
+      ? `Translate the following ${items.length} ${noun}.`
+      : `Review the following ${items.length} ${noun}. Each was marked fuzzy because its source changed or it was filled in automatically; confirm the translation if it is still correct, otherwise correct it.`;
+    const rules = [
+      'Rules:',
+      '- Keep placeholders (%s, %(name)s, {0}, {name}), HTML tags, leading/trailing whitespace and newlines exactly as in the source.',
+      '- Match the final punctuation of the source unless the target language requires otherwise.',
+      '- Use the glossary translations given for each entry.',
+      '- For plural entries, give one form per plural index, in order.',
+      '',
+      'Save the results with update_multiple_translations, passing each entry\'s id and msgstr (an array of forms for plural entries).'
+    ];
+
+    return {
+      description: `${verb} ${items.length} ${noun}`,
+      text: [intro, ...sections, rules.join('\n')].join('\n\n')
+    };
+  }
+
+  private describeLanguage(language: string | undefined): string {
+    if (!language) return 'unknown (no Language header; ask before translating)';
+    try {
+      const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(language.replace(/_/g, '-'));
+      return name && name !== language ? `${name} (${language})` : language;
+    } catch {
+      return language;
+    }
+  }
+
+  private describePlurals(poFile: POFile): string | undefined {
+    try {
+      const [preview] = this.translationService.previewPlural({ filePath: poFile.path }, [0, 1, 2, 3, 5, 11, 21, 22, 101]);
+      if (!preview || preview.nplurals < 2) return undefined;
+      const examples = new Map<number, number[]>();
+      preview.forms.forEach(form => examples.set(form.index, [...(examples.get(form.index) ?? []), form.n]));
+      const forms = Array.from({ length: preview.nplurals }, (_, index) => `form ${index}: n = ${(examples.get(index) ?? []).join(', ') || '…'}`);
+      return `Plural forms (${preview.nplurals}): ${forms.join('; ')}`;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { SourceSnippet, SourceContextOptions } from '../types/index.js';
+
+// Generated bundles and data files are not worth reading for a few lines of context
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Shows the source code around "#: path:line" references. References are
+ * resolved against the source root; paths that lead outside it, directly
+ * or through symlinks, are refused.
+ */
+export class SourceContextService {
+  constructor(private sourceRoot?: string) {}
+
+  public async getSnippets(references: string[], options: SourceContextOptions = {}): Promise<SourceSnippet[]> {
+    const { contextLines = 5, maxReferences = 3 } = options;
+    if (!this.sourceRoot) {
+      throw new Error(`No source root configured. Set TRANSLATE_PO_SOURCE_ROOT to the project directory the #: references are relative to.`);
+    }
+    let root: string;
+    try {
+      root = await fs.realpath(path.resolve(this.sourceRoot));
+    } catch {
+      throw new Error(`Source root not found: ${this.sourceRoot}. Check TRANSLATE_PO_SOURCE_ROOT.`);
+    }
+
+    // Several references often point into the same file
+    const files = new Map<string, Promise<string[]>>();
+    const readLines = (file: string): Promise<string[]> => {
+      if (!files.has(file)) {
+        files.set(file, fs.readFile(file, 'utf-8').then(content => content.split(/\r?\n/)));
+      }
+      return files.get(file)!;
+    };
+
+    return await Promise.all(references.slice(0, maxReferences).map(reference => this.getSnippet(reference, root, contextLines, readLines)));
+  }
+
+  private async getSnippet(reference: string, root: string, contextLines: number, readLines: (file: string) => Promise<string[]>): Promise<SourceSnippet> {
+    const match = reference.match(/^(.+?):(\d+)$/);
+    const line = match ? Number(match[2]) : undefined;
+    const target = path.resolve(root, match ? match[1]! : reference);
+    if (!this.isInside(root, target)) {
+      return { reference, error: 'Refused: the path is outside the source root' };
+    }
+
+    let file: string;
+    try {
+      file = await fs.realpath(target);
+      if ((await fs.stat(file)).size > MAX_FILE_SIZE) {
+        return { reference, error: 'File is too large to show' };
+      }
+    } catch {
+      return { reference, error: 'File not found under the source root' };
+    }
+    if (!this.isInside(root, file)) {
+      return { reference, error: 'Refused: the path resolves outside the source root' };
+    }
+
+    const relative = path.relative(root, file);
+    if (line === undefined) {
+      return { reference, file: relative, error: 'Reference has no line number' };
+    }
+    const lines = await readLines(file);
+    if (line < 1 || line > lines.length) {
+      return { reference, file: relative, line, error: `Line ${line} is past the end of the file (${lines.length} lines)` };
+    }
+
+    const startLine = Math.max(1, line - contextLines);
+    const endLine = Math.min(lines.length, line + contextLines);
+    const width = String(endLine).length;
+    const code = lines
+      .slice(startLine - 1, endLine)
+      .map((text, index) => {
+        const number = startLine + index;
+        return `${number === line ? '>' : ' '} ${String(number).padStart(width)} | ${text}`;
+      })
+      .join('\n');
+    return { reference, file: relative, line, startLine, endLine, code };
+  }
+
+  private isInside(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+  }
+}
@@ -0,0 +1,214 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { POFileService } from './POFileService.js';
+import {
+  POFile,
+  TranslationEntry,
+  TranslationMemoryUnit,
+  TranslationSuggestion,
+  SuggestOptions
+} from '../types/index.js';
+import { similarity } from '../utils/similarity.js';
+
+interface MemoryIndex {
+  signature: string;
+  units: TranslationMemoryUnit[];
+  trigrams: Map<string, number[]>;
+}
+
+interface MemoryStoreFile {
+  version: 1;
+  units: TranslationMemoryUnit[];
+}
+
+/**
+ * Translation memory over every loaded catalog. Finished translations (not
+ * fuzzy, not obsolete, all plural forms filled) are indexed by character
+ * trigrams and ranked by edit distance. With a store path, units are also
+ * kept on disk so translations outlive the catalogs they came from.
+ */
+export class TranslationMemoryService {
+  private index: MemoryIndex | undefined;
+  private storedUnits: TranslationMemoryUnit[] | undefined;
+
+  constructor(private poFileService: POFileService, private storePath?: string) {}
+
+  public async suggest(options: SuggestOptions): Promise<TranslationSuggestion[]> {
+    const { msgid, msgctxt, minScore = 0.6, limit = 5 } = options;
+    const index = await this.getIndex();
+    const language = this.targetLanguage(options);
+    const targetFile = options.filePath ? path.resolve(options.filePath) : undefined;
+
+    const queryTrigrams = this.trigrams(msgid);
+    const shared = new Map<number, number>();
+    queryTrigrams.forEach(trigram => {
+      index.trigrams.get(trigram)?.forEach(unitIndex => shared.set(unitIndex, (shared.get(unitIndex) ?? 0) + 1));
+    });
+
+    const suggestions: TranslationSuggestion[] = [];
+    for (const [unitIndex, count] of shared) {
+      const unit = index.units[unitIndex]!;
+      if (language !== undefined && (unit.language === undefined || this.normalizeLanguage(unit.language) !== language)) continue;
+      if (unit.file === targetFile && unit.msgid === msgid && unit.msgctxt === msgctxt) continue;
+
+      // Cheap trigram overlap first, edit distance only for plausible candidates
+      const unitTrigrams = this.trigrams(unit.msgid).size;
+      const dice = (2 * count) / (queryTrigrams.size + unitTrigrams);
+      if (dice < minScore / 2) continue;
+
+      const exact = unit.msgid === msgid;
+      let score = exact ? 1 : similarity(unit.msgid.toLowerCase(), msgid.toLowerCase(), minScore);
+      // Same text in another context is still a strong match, but not a certain one
+      if (unit.msgctxt !== msgctxt) score *= 0.95;
+      if (score < minScore) continue;
+
+      suggestions.push({ ...unit, score: Math.round(score * 1000) / 1000, exact: exact && unit.msgctxt === msgctxt });
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score || Number(b.exact) - Number(a.exact))
+      .slice(0, limit);
+  }
+
+  /**
+   * Returns the best suggestion for an entry of a loaded catalog, limited to
+   * memory units with the same plural shape.
+   */
+  public async findBestMatch(poFile: POFile, entry: TranslationEntry, minScore: number): Promise<TranslationSuggestion | undefined> {
+    const suggestions = await this.suggest({
+      msgid: entry.msgid,
+      ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+      filePath: poFile.path,
+      minScore,
+      limit: 10
+    });
+    const nplurals = poFile.nplurals ?? 2;
+    return suggestions.find(suggestion => {
+      if (entry.msgid_plural === undefined) return !Array.isArray(suggestion.msgstr);
+      return suggestion.msgid_plural === entry.msgid_plural && Array.isArray(suggestion.msgstr) && suggestion.msgstr.length === nplurals;
+    });
+  }
+
+  public async getUnitCount(): Promise<number> {
+    return (await this.getIndex()).units.length;
+  }
+
+  private async getIndex(): Promise<MemoryIndex> {
+    const files = this.poFileService.getLoadedPOFiles();
+    // Catalogs are reloaded after every save, so path + mtime identifies their content
+    const signature = files.map(file => `${file.path}@${file.lastModified.getTime()}`).sort().join('|');
+    if (this.index && this.index.signature === signature) {
+      return this.index;
+    }
+
+    const catalogUnits = files.flatMap(file => this.collectUnits(file));
+    const units = await this.mergeWithStore(catalogUnits);
+
+    const trigrams = new Map<string, number[]>();
+    units.forEach((unit, unitIndex) => {
+      this.trigrams(unit.msgid).forEach(trigram => {
+        const postings = trigrams.get(trigram);
+        if (postings) {
+          postings.push(unitIndex);
+        } else {
+          trigrams.set(trigram, [unitIndex]);
+        }
+      });
+    });
+
+    this.index = { signature, units, trigrams };
+    return this.index;
+  }
+
+  private collectUnits(poFile: POFile): TranslationMemoryUnit[] {
+    const nplurals = poFile.nplurals ?? 2;
+    return poFile.entries
+      .filter(entry => {
+        if (entry.obsolete || this.isFuzzy(entry)) return false;
+        const forms = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+        if (entry.msgid_plural !== undefined && forms.length < nplurals) return false;
+        return forms.length > 0 && forms.every(form => form.trim() !== '');
+      })
+      .map(entry => ({
+        msgid: entry.msgid,
+        ...(entry.msgid_plural !== undefined && { msgid_plural: entry.msgid_plural }),
+        ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+        msgstr: entry.msgstr,
+        ...(poFile.language !== undefined && { language: poFile.language }),
+        file: poFile.path
+      }));
+  }
+
+  /**
+   * Combines units from the loaded catalogs with the on-disk store. Loaded
+   * catalogs win for the files they cover; the store is rewritten when that
+   * changes its content.
+   */
+  private async mergeWithStore(catalogUnits: TranslationMemoryUnit[]): Promise<TranslationMemoryUnit[]> {
+    if (!this.storePath) {
+      return catalogUnits;
+    }
+
+    const stored = await this.loadStore();
+    const loadedFiles = new Set(catalogUnits.map(unit => unit.file));
+    const units = [...stored.filter(unit => !loadedFiles.has(unit.file)), ...catalogUnits];
+
+    if (JSON.stringify(units) !== JSON.stringify(stored)) {
+      const store: MemoryStoreFile = { version: 1, units };
+      try {
+        await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+        await fs.writeFile(this.storePath, JSON.stringify(store, null, 2), 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to write translation memory ${this.storePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      this.storedUnits = units;
+    }
+    return units;
+  }
+
+  private async loadStore(): Promise<TranslationMemoryUnit[]> {
+    if (this.storedUnits || !this.storePath) {
+      return this.storedUnits ?? [];
+    }
+
+    try {
+      const store = JSON.parse(await fs.readFile(this.storePath, 'utf-8')) as Partial<MemoryStoreFile>;
+      this.storedUnits = Array.isArray(store.units) ? store.units : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read translation memory ${this.storePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      this.storedUnits = [];
+    }
+    return this.storedUnits;
+  }
+
+  private targetLanguage(options: SuggestOptions): string | undefined {
+    if (options.language) {
+      return this.normalizeLanguage(options.language);
+    }
+    if (options.filePath) {
+      const language = this.poFileService.resolveFiles({ filePath: options.filePath })[0]?.language;
+      return language !== undefined ? this.normalizeLanguage(language) : undefined;
+    }
+    return undefined;
+  }
+
+  private trigrams(text: string): Set<string> {
+    const padded = `  ${text.toLowerCase()} `;
+    const trigrams = new Set<string>();
+    for (let index = 0; index + 3 <= padded.length; index++) {
+      trigrams.add(padded.slice(index, index + 3));
+    }
+    return trigrams;
+  }
+
+  private isFuzzy(entry: TranslationEntry): boolean {
+    const flags = entry.flags ?? [];
+    return Array.isArray(flags) ? flags.includes('fuzzy') : Boolean(flags['fuzzy']);
+  }
+
+  private normalizeLanguage(language: string): string {
+    return language.trim().replace(/-/g, '_').toLowerCase();
+  }
+}
@@ -1,18 +1,128 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { POFileService } from './POFileService.js';
+import { POTMergeService } from './POTMergeService.js';
+import { MOCompilerService } from './MOCompilerService.js';
+import { ValidationService, ValidationError } from './ValidationService.js';
+import { TranslationMemoryService } from './TranslationMemoryService.js';
+import { GlossaryService } from './GlossaryService.js';
+import { ChangeJournalService } from './ChangeJournalService.js';
+import { MachineTranslationService } from './MachineTranslationService.js';
+import { XliffService } from './XliffService.js';
+import { CatalogConversionService } from './CatalogConversionService.js';
+import { ConsistencyService } from './ConsistencyService.js';
+import { SourceContextService } from './SourceContextService.js';
+import { MessageExtractionService } from './MessageExtractionService.js';
 import { 
   TranslationEntry, 
+  TranslationSearchResult,
   SearchOptions,
   TranslationStats,
   UpdateTranslationRequest,
   POFile,
-  LimitOptions
+  CatalogFilter,
+  ProjectLoadResult,
+  MergeOptions,
+  MergeReport,
+  CompileOptions,
+  CompileReport,
+  CheckOptions,
+  EntryCheckResult,
+  UpdateResult,
+  BatchItemResult,
+  BatchUpdateResult,
+  UntranslatedEntry,
+  PluralPreview,
+  PageOptions,
+  EntryLocator,
+  EntryPage,
+  SuggestOptions,
+  TranslationSuggestion,
+  PretranslateOptions,
+  PretranslateReport,
+  GlossaryLoadOptions,
+  GlossaryLoadResult,
+  GlossaryTerm,
+  JournalChange,
+  JournalFilter,
+  RevertResult,
+  EntryReference,
+  FlagUpdateRequest,
+  ApproveOptions,
+  ApproveReport,
+  FuzzyEntry,
+  MachineTranslateOptions,
+  MachineTranslateReport,
+  PseudolocalizeOptions,
+  PseudolocalizeReport,
+  XliffExportOptions,
+  XliffExportReport,
+  XliffImportOptions,
+  ImportResult,
+  CatalogUnit,
+  CatalogExportOptions,
+  CatalogExportReport,
+  CatalogImportOptions,
+  LanguageComparisonOptions,
+  LanguageComparison,
+  InconsistencyOptions,
+  Inconsistency,
+  SourceContextOptions,
+  EntryContext,
+  ExtractOptions,
+  ExtractionReport,
+  CatalogHeaders,
+  InitLocaleOptions,
+  InitLocaleReport,
+  ImportedEntry
 } from '../types/index.js';
+import { diffWords, formatDiff } from '../utils/wordDiff.js';
+import { pseudolocalize } from '../utils/pseudo.js';
+import { pluralFormsFor } from '../utils/pluralForms.js';
+import { toGettextLocale } from '../utils/headers.js';
+import { formatPODate } from '../utils/poFormat.js';
+
+// Accented English, as used by Android and Chrome for pseudo-locales
+const PSEUDO_LANGUAGE = 'en_XA';
+const SOURCE_PLURAL_FORMS = 'nplurals=2; plural=(n != 1);';
 
 export class TranslationService {
   private poFileService: POFileService;
+  private potMergeService: POTMergeService;
+  private moCompilerService: MOCompilerService;
+  private validationService: ValidationService;
+  private translationMemoryService: TranslationMemoryService;
+  private glossaryService: GlossaryService;
+  private changeJournalService: ChangeJournalService;
+  private machineTranslationService: MachineTranslationService;
+  private xliffService: XliffService;
+  private catalogConversionService: CatalogConversionService;
+  private consistencyService: ConsistencyService;
+  private sourceContextService: SourceContextService;
+  private messageExtractionService: MessageExtractionService;
+  private translator: string | undefined;
 
   constructor() {
-    this.poFileService = new POFileService();
+    const journalPath = process.env['TRANSLATE_PO_JOURNAL'] ?? path.join(os.homedir(), '.translate-po-mcp', 'journal.jsonl');
+    this.changeJournalService = new ChangeJournalService(journalPath === 'off' ? undefined : journalPath, process.env['TRANSLATE_PO_AUTHOR']);
+    // Written to Last-Translator when a save changes entries
+    this.translator = process.env['TRANSLATE_PO_TRANSLATOR'] ?? process.env['TRANSLATE_PO_AUTHOR'];
+    this.poFileService = new POFileService({
+      watch: ['1', 'true'].includes(process.env['TRANSLATE_PO_WATCH'] ?? ''),
+      journal: this.changeJournalService,
+      ...(this.translator !== undefined && { translator: this.translator })
+    });
+    this.potMergeService = new POTMergeService(this.poFileService);
+    this.moCompilerService = new MOCompilerService(this.poFileService);
+    this.validationService = new ValidationService(ValidationService.parsePolicy(process.env['TRANSLATE_PO_VALIDATION']));
+    this.translationMemoryService = new TranslationMemoryService(this.poFileService, process.env['TRANSLATE_PO_MEMORY']);
+    this.glossaryService = new GlossaryService();
+    this.machineTranslationService = new MachineTranslationService(MachineTranslationService.configFromEnv(process.env));
+    this.xliffService = new XliffService(this.poFileService);
+    this.catalogConversionService = new CatalogConversionService(this.poFileService);
+    this.consistencyService = new ConsistencyService(this.poFileService);
+    this.sourceContextService = new SourceContextService(process.env['TRANSLATE_PO_SOURCE_ROOT']);
+    this.messageExtractionService = new MessageExtractionService(process.env['TRANSLATE_PO_SOURCE_ROOT']);
   }
 
 
@@ -21,179 +131,762 @@ export class TranslationService {
     return await this.poFileService.loadPOFile(filePath);
   }
 
+  public async loadTranslationProject(directory: string, pattern?: string): Promise<ProjectLoadResult> {
+    const files = await this.poFileService.findPOFiles(directory, pattern);
+    if (files.length === 0) {
+      throw new Error(`No .po files found in ${directory}${pattern ? ` matching ${pattern}` : ''}.`);
+    }
 
+    const result: ProjectLoadResult = { directory, loaded: [], failed: [] };
+    // Load one by one so a broken catalog doesn't prevent the rest from loading
+    for (const filePath of files.sort()) {
+      try {
+        result.loaded.push(await this.poFileService.loadPOFile(filePath));
+      } catch (error) {
+        result.failed.push({ path: filePath, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+    return result;
+  }
 
-  public getUntranslatedStrings(filePath?: string, options?: LimitOptions): TranslationEntry[] {
-    if (this.poFileService.getLoadedFiles().length === 0) {
+
+
+  /**
+   * Warnings to pass on with the current tool result, such as a journal that
+   * could not be written or a watched file that failed to reload.
+   */
+  public takeWarnings(): string[] {
+    return this.poFileService.takeWarnings();
+  }
+
+  public onCatalogChanged(listener: (filePath: string, isNew: boolean) => void): void {
+    this.poFileService.onFileChanged(listener);
+  }
+
+  public async loadGlossary(options: GlossaryLoadOptions): Promise<GlossaryLoadResult> {
+    return this.glossaryService.loadGlossary(options);
+  }
+
+  /**
+   * Loads the glossaries listed in TRANSLATE_PO_GLOSSARY (paths separated
+   * like PATH entries).
+   */
+  public async loadConfiguredGlossaries(): Promise<GlossaryLoadResult[]> {
+    const paths = (process.env['TRANSLATE_PO_GLOSSARY'] ?? '').split(path.delimiter).filter(Boolean);
+    const results: GlossaryLoadResult[] = [];
+    for (const glossaryPath of paths) {
+      results.push(await this.glossaryService.loadGlossary({ path: glossaryPath }));
+    }
+    return results;
+  }
+
+  /**
+   * Glossary terms that occur in a source string, for an explicit language
+   * or the language of the selected catalog.
+   */
+  public getGlossaryTerms(text: string, filter: CatalogFilter = {}): GlossaryTerm[] {
+    if (this.glossaryService.getLoadedGlossaries().length === 0) {
+      throw new Error(`No glossaries loaded. Use load_glossary first or set TRANSLATE_PO_GLOSSARY.`);
+    }
+    const language = filter.language ?? (filter.filePath ? this.poFileService.resolveFiles({ filePath: filter.filePath })[0]?.language : undefined);
+    if (!language) {
+      throw new Error(`Cannot determine the target language. Pass language or a filePath whose catalog has a Language header.`);
+    }
+    return this.glossaryService.findTerms(language, text);
+  }
+
+  public getEntryGlossaryTerms(filePath: string, entry: TranslationEntry): GlossaryTerm[] {
+    const language = this.poFileService.resolveFiles({ filePath })[0]?.language;
+    return this.glossaryService.findTerms(language, entry.msgid, entry.msgid_plural);
+  }
+
+  public getHeaders(filePath: string): CatalogHeaders {
+    const poFile = this.poFileService.resolveFiles({ filePath })[0]!;
+    return {
+      file: poFile.path,
+      headers: Object.fromEntries(Object.entries(poFile.headers).filter((header): header is [string, string] => header[1] !== undefined)),
+      ...(poFile.language !== undefined && { language: poFile.language }),
+      ...(poFile.domain !== undefined && { domain: poFile.domain }),
+      ...(poFile.nplurals !== undefined && { nplurals: poFile.nplurals })
+    };
+  }
+
+  /**
+   * Validates and saves header changes (undefined removes a header). If the
+   * file cannot be saved, the previous headers are restored in memory.
+   */
+  public async setHeaders(filePath: string, headers: Record<string, string | undefined>): Promise<CatalogHeaders> {
+    const previous = { ...this.poFileService.resolveFiles({ filePath })[0]!.headers };
+    this.poFileService.setHeaders(filePath, headers);
+    try {
+      await this.poFileService.savePOFile(filePath);
+    } catch (error) {
+      const restore = Object.fromEntries(Object.keys(headers).map(key => [key, previous[key]]));
+      this.poFileService.setHeaders(filePath, restore, { validate: false });
+      throw error;
+    }
+    return this.getHeaders(filePath);
+  }
+
+  public async extractMessages(options: ExtractOptions): Promise<ExtractionReport> {
+    return await this.messageExtractionService.extract(options);
+  }
+
+  public async mergePot(options: MergeOptions): Promise<MergeReport[]> {
+    return await this.potMergeService.mergePot(options);
+  }
+
+  public async compileMO(options: CompileOptions): Promise<CompileReport[]> {
+    return await this.moCompilerService.compile(options);
+  }
+
+  public async suggestTranslations(options: SuggestOptions): Promise<TranslationSuggestion[]> {
+    if (this.poFileService.getLoadedFiles().length === 0 && (await this.translationMemoryService.getUnitCount()) === 0) {
       throw new Error(`No files loaded. Use load_po_file first.`);
     }
+    return this.translationMemoryService.suggest(options);
+  }
 
-    const searchOptions: SearchOptions = {
+  /**
+   * Fills untranslated entries with their best translation memory match.
+   * Every filled entry is marked fuzzy for review; matches that fail
+   * validation at error severity are skipped.
+   */
+  public async pretranslateFromMemory(options: PretranslateOptions): Promise<PretranslateReport[]> {
+    const { minScore = 0.8, dryRun = false, limit } = options;
+    const filter: CatalogFilter = {
+      ...(options.filePath !== undefined && { filePath: options.filePath }),
+      ...(options.language !== undefined && { language: options.language }),
+      ...(options.domain !== undefined && { domain: options.domain })
+    };
+    const untranslated = this.poFileService.searchTranslations({
+      ...filter,
       query: '',
       searchIn: 'msgid',
       includeUntranslated: true,
       includeTranslated: false,
-      includeFuzzy: false,
-      ...(options?.limit !== undefined && { limit: options.limit })
-    };
+      includeFuzzy: false
+    });
 
-    const results = this.poFileService.searchTranslations(searchOptions);
-    
-    if (filePath) {
-      if (!this.poFileService.isFileLoaded(filePath)) {
-        throw new Error(`File not loaded: ${filePath}. Use load_po_file first.`);
+    // Look everything up first so entries filled in this run don't feed later matches
+    const reports: PretranslateReport[] = [];
+    for (const result of untranslated) {
+      if (limit !== undefined && reports.length >= limit) break;
+      const poFile = this.poFileService.resolveFiles({ filePath: result.file })[0]!;
+      const match = await this.translationMemoryService.findBestMatch(poFile, result.entry, minScore);
+      if (!match) continue;
+      const issues = this.validationService.validate(result.entry, match.msgstr, undefined, this.getEntryGlossaryTerms(result.file, result.entry));
+      if (issues.some(issue => issue.severity === 'error')) continue;
+
+      reports.push({
+        file: result.file,
+        msgid: result.entry.msgid,
+        ...(result.entry.msgctxt !== undefined && { msgctxt: result.entry.msgctxt }),
+        msgstr: match.msgstr,
+        source: match.file,
+        score: match.score
+      });
+    }
+
+    if (dryRun) {
+      return reports;
+    }
+
+    await this.commitUpdates(
+      reports.map(report => ({ filePath: report.file, msgid: report.msgid, msgstr: report.msgstr, ...(report.msgctxt !== undefined && { msgctxt: report.msgctxt }) })),
+      { fuzzy: true }
+    );
+    return reports;
+  }
+
+  public async machineTranslate(options: MachineTranslateOptions): Promise<MachineTranslateReport> {
+    const { sourceLanguage = 'en', dryRun = false, limit } = options;
+    const provider = this.machineTranslationService.getProvider(options.provider);
+    const untranslated = this.poFileService.searchTranslations({
+      ...(options.filePath !== undefined && { filePath: options.filePath }),
+      ...(options.language !== undefined && { language: options.language }),
+      ...(options.domain !== undefined && { domain: options.domain }),
+      query: '',
+      searchIn: 'msgid',
+      includeUntranslated: true,
+      includeTranslated: false,
+      includeFuzzy: false
+    });
+
+    const report: MachineTranslateReport = { provider: provider.name, translated: [], skipped: [] };
+    const reference = (result: TranslationSearchResult): Omit<MachineTranslateReport['skipped'][number], 'reason'> => ({
+      file: result.file,
+      msgid: result.entry.msgid,
+      ...(result.entry.msgctxt !== undefined && { msgctxt: result.entry.msgctxt })
+    });
+
+    // Group by target language so each provider request has a single language pair
+    const byLanguage = new Map<string, { result: TranslationSearchResult; nplurals: number }[]>();
+    for (const result of limit !== undefined ? untranslated.slice(0, limit) : untranslated) {
+      const poFile = this.poFileService.resolveFiles({ filePath: result.file })[0]!;
+      if (!poFile.language) {
+        report.skipped.push({ ...reference(result), reason: 'Catalog has no Language header' });
+        continue;
       }
-      const filtered = results
-        .filter(result => result.file === filePath)
-        .map(result => result.entry);
-      
-      if (filtered.length === 0) {
-        throw new Error(`No untranslated strings found in ${filePath}.`);
+      const group = byLanguage.get(poFile.language) ?? [];
+      group.push({ result, nplurals: poFile.nplurals ?? 2 });
+      byLanguage.set(poFile.language, group);
+    }
+
+    for (const [language, group] of byLanguage) {
+      const sources = group.map(({ result, nplurals }) => this.pluralSources(result.entry, nplurals));
+      const texts = sources.flatMap((forms, index) =>
+        forms.map(text => ({ text, flags: this.flagList(group[index]!.result.entry) })));
+      const translations = await this.machineTranslationService.translate(texts, sourceLanguage, language, provider.name);
+
+      let offset = 0;
+      group.forEach(({ result }, index) => {
+        const count = sources[index]!.length;
+        const forms = translations.slice(offset, offset + count);
+        offset += count;
+
+        if (forms.some(form => form === undefined)) {
+          report.skipped.push({ ...reference(result), reason: 'Placeholders were lost or altered by the provider' });
+          return;
+        }
+        const { entry } = result;
+        // Keep plural forms a translator already filled in
+        const existing = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+        const msgstr = entry.msgid_plural === undefined
+          ? forms[0]!
+          : forms.map((form, formIndex) => (existing[formIndex] ?? '').trim() !== '' ? existing[formIndex]! : form!);
+
+        const issues = this.validationService.validate(entry, msgstr, undefined, this.getEntryGlossaryTerms(result.file, entry));
+        const errors = issues.filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+          report.skipped.push({ ...reference(result), reason: errors.map(issue => issue.message).join('; ') });
+          return;
+        }
+        report.translated.push({ ...reference(result), msgstr });
+      });
+    }
+
+    if (dryRun || report.translated.length === 0) {
+      return report;
+    }
+
+    await this.commitUpdates(
+      report.translated.map(item => ({ filePath: item.file, msgid: item.msgid, msgstr: item.msgstr, ...(item.msgctxt !== undefined && { msgctxt: item.msgctxt }) })),
+      { fuzzy: true }
+    );
+    return report;
+  }
+
+  /**
+   * Creates <localesDir>/<lang>/LC_MESSAGES/<domain>.po from a template
+   * (pybabel init / msginit equivalent) and loads it. The Plural-Forms
+   * header comes from the built-in table unless one is given.
+   */
+  public async initLocale(options: InitLocaleOptions): Promise<InitLocaleReport> {
+    const language = toGettextLocale(options.locale);
+    const pluralForms = options.pluralForms ?? pluralFormsFor(language);
+    if (pluralForms === undefined) {
+      throw new Error(`No built-in Plural-Forms for "${language}". Pass pluralForms, e.g. "nplurals=2; plural=(n != 1);".`);
+    }
+    const templatePath = path.resolve(options.templatePath);
+    const domain = options.domain ?? path.basename(templatePath, path.extname(templatePath));
+    const filePath = options.outputPath !== undefined
+      ? path.resolve(options.outputPath)
+      : path.join(path.resolve(options.localesDir ?? this.defaultLocalesDir(templatePath)), language, 'LC_MESSAGES', `${domain}.po`);
+
+    const poFile = await this.poFileService.createPOFile(filePath, {
+      templatePath,
+      headers: {
+        'PO-Revision-Date': formatPODate(new Date()),
+        'Last-Translator': this.translator ?? 'FULL NAME <EMAIL@ADDRESS>',
+        'Language': language,
+        'Language-Team': `${language} <LL@li.org>`,
+        'Plural-Forms': pluralForms
       }
-      return filtered;
+    });
+    return {
+      file: poFile.path,
+      language,
+      domain,
+      pluralForms,
+      entries: poFile.entries.filter(entry => !entry.obsolete && entry.msgid !== '').length
+    };
+  }
+
+  /**
+   * locales/ next to a template, or the locales directory a .po template
+   * already sits in (locales/<lang>/LC_MESSAGES/<domain>.po).
+   */
+  private defaultLocalesDir(templatePath: string): string {
+    const directory = path.dirname(templatePath);
+    if (path.basename(directory) === 'LC_MESSAGES') return path.dirname(path.dirname(directory));
+    return path.basename(directory) === 'locales' ? directory : path.join(directory, 'locales');
+  }
+
+  public async pseudolocalize(options: PseudolocalizeOptions): Promise<PseudolocalizeReport> {
+    const { filePath, templatePath, overwrite = false } = options;
+    const loaded = this.poFileService.isFileLoaded(filePath);
+    if (templatePath !== undefined && loaded) {
+      throw new Error(`File already loaded: ${filePath}. Omit templatePath to fill it.`);
+    }
+    if (templatePath !== undefined) {
+      await this.poFileService.createPOFile(filePath, {
+        templatePath,
+        headers: { 'Language': options.language ?? PSEUDO_LANGUAGE, 'Plural-Forms': SOURCE_PLURAL_FORMS }
+      });
+    } else if (!loaded) {
+      await this.poFileService.loadPOFile(filePath);
     }
 
-    const entries = results.map(result => result.entry);
-    if (entries.length === 0) {
-      throw new Error(`No untranslated strings found in loaded files.`);
+    // The pseudo-locale mirrors the source language, so it gets English plural rules
+    const poFile = this.poFileService.resolveFiles({ filePath })[0]!;
+    const missingHeaders: Record<string, string> = {
+      ...(!poFile.headers['Language']?.trim() && { 'Language': options.language ?? poFile.language ?? PSEUDO_LANGUAGE }),
+      ...(!poFile.headers['Plural-Forms']?.trim() && { 'Plural-Forms': SOURCE_PLURAL_FORMS })
+    };
+    if (Object.keys(missingHeaders).length > 0) {
+      this.poFileService.setHeaders(filePath, missingHeaders);
     }
-    return entries;
+
+    const nplurals = poFile.nplurals ?? 2;
+    const pseudoOptions = {
+      ...(options.accents !== undefined && { accents: options.accents }),
+      ...(options.expansion !== undefined && { expansion: options.expansion }),
+      ...(options.markers !== undefined && { markers: options.markers })
+    };
+    const requests: UpdateTranslationRequest[] = [];
+    for (const entry of poFile.entries) {
+      if (entry.obsolete || entry.msgid === '') continue;
+      const existing = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+      const filled = (index: number): boolean => !overwrite && (existing[index] ?? '').trim() !== '';
+      const sources = this.pluralSources(entry, nplurals);
+      // Leave translators' work alone: finished and fuzzy entries are only replaced with overwrite
+      if (!overwrite && (this.flagList(entry).includes('fuzzy') || sources.every((_, index) => filled(index)))) continue;
+
+      const forms = sources.map((source, index) => filled(index) ? existing[index]! : pseudolocalize(source, this.flagList(entry), pseudoOptions));
+      requests.push({
+        filePath: poFile.path,
+        msgid: entry.msgid,
+        msgstr: entry.msgid_plural === undefined ? forms[0]! : forms,
+        ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt })
+      });
+    }
+
+    if (requests.length > 0) {
+      await this.commitUpdates(requests);
+    } else if (Object.keys(missingHeaders).length > 0) {
+      await this.poFileService.savePOFile(poFile.path);
+    }
+    const saved = this.poFileService.resolveFiles({ filePath })[0]!;
+    return {
+      file: saved.path,
+      created: templatePath !== undefined,
+      filled: requests.length,
+      ...(saved.language !== undefined && { language: saved.language })
+    };
   }
 
-  public getFuzzyTranslations(filePath?: string, options?: LimitOptions): TranslationEntry[] {
+  public async exportXliff(options: XliffExportOptions): Promise<XliffExportReport[]> {
+    return await this.xliffService.export(options);
+  }
+
+  /**
+   * Applies the translations of an XLIFF file to the catalog it was exported
+   * from. Units are matched by msgid and msgctxt; units that match nothing or
+   * whose source changed are reported, the rest go through
+   * updateMultipleTranslations and are applied all together or not at all.
+   */
+  public async importXliff(options: XliffImportOptions): Promise<ImportResult> {
+    const document = await this.xliffService.read(options.xliffPath);
+    const filePath = options.filePath ?? document.original;
+    if (filePath === undefined) {
+      throw new Error(`${options.xliffPath} does not name its catalog. Pass filePath.`);
+    }
+    if (!this.poFileService.isFileLoaded(filePath)) {
+      await this.poFileService.loadPOFile(filePath);
+    }
+    const poFile = this.poFileService.resolveFiles({ filePath })[0]!;
+    const baseLanguage = (language: string): string => language.split(/[-_@]/)[0]!.toLowerCase();
+    if (document.targetLanguage && poFile.language && baseLanguage(document.targetLanguage) !== baseLanguage(poFile.language)) {
+      throw new Error(`${options.xliffPath} is for ${document.targetLanguage}, but ${poFile.path} is ${poFile.language}. Pass the matching filePath.`);
+    }
+
+    return await this.applyImport(poFile, document.units);
+  }
+
+  public async exportCatalog(options: CatalogExportOptions): Promise<CatalogExportReport[]> {
+    return await this.catalogConversionService.export(options);
+  }
+
+  /**
+   * Applies translations from flat JSON, i18next JSON or CSV to a catalog,
+   * through the same matching and all-or-nothing update as importXliff.
+   */
+  public async importCatalog(options: CatalogImportOptions): Promise<ImportResult> {
+    if (!this.poFileService.isFileLoaded(options.filePath)) {
+      await this.poFileService.loadPOFile(options.filePath);
+    }
+    const poFile = this.poFileService.resolveFiles({ filePath: options.filePath })[0]!;
+    const { units, unmatched, changed } = await this.catalogConversionService.read(poFile, options);
+    const result = await this.applyImport(poFile, units, options.fuzzy !== undefined ? { fuzzy: options.fuzzy } : {});
+    return { ...result, unmatched: [...unmatched, ...result.unmatched], changed: [...changed, ...result.changed] };
+  }
+
+  public searchTranslations(options: SearchOptions): TranslationSearchResult[] {
+    if (this.poFileService.getLoadedFiles().length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+    return this.poFileService.searchTranslations(options);
+  }
+
+  /**
+   * Untranslated entries, one page at a time. total counts every match, so
+   * callers can tell how much is left; nextCursor continues after the last
+   * entry returned even if earlier entries are translated in the meantime.
+   */
+  public getUntranslatedStrings(filter: CatalogFilter = {}, options: PageOptions = {}): EntryPage<UntranslatedEntry> {
     if (this.poFileService.getLoadedFiles().length === 0) {
       throw new Error(`No files loaded. Use load_po_file first.`);
     }
 
     const searchOptions: SearchOptions = {
+      ...filter,
       query: '',
       searchIn: 'msgid',
-      includeUntranslated: false,
+      includeUntranslated: true,
       includeTranslated: false,
-      includeFuzzy: true,
-      ...(options?.limit !== undefined && { limit: options.limit })
+      includeFuzzy: false
     };
 
-    const results = this.poFileService.searchTranslations(searchOptions);
-    
-    if (filePath) {
-      if (!this.poFileService.isFileLoaded(filePath)) {
-        throw new Error(`File not loaded: ${filePath}. Use load_po_file first.`);
-      }
-      const filtered = results
-        .filter(result => result.file === filePath)
-        .map(result => result.entry);
-      
-      if (filtered.length === 0) {
-        throw new Error(`No fuzzy translations found in ${filePath}.`);
-      }
-      return filtered;
+    const page = this.paginate(this.poFileService.searchTranslations(searchOptions), options, result => {
+      const nplurals = this.poFileService.resolveFiles({ filePath: result.file })[0]?.nplurals ?? 2;
+      const missingPluralForms = this.poFileService.getMissingPluralForms(result.entry, nplurals);
+      const glossaryTerms = this.getEntryGlossaryTerms(result.file, result.entry);
+      const entry: UntranslatedEntry = { id: result.id, file: result.file, ...result.entry };
+      // Only flag plurals that are partly done; fully empty ones are plain untranslated entries
+      if (missingPluralForms.length > 0 && missingPluralForms.length < nplurals) entry.missingPluralForms = missingPluralForms;
+      if (glossaryTerms.length > 0) entry.glossaryTerms = glossaryTerms;
+      return entry;
+    });
+    if (page.total === 0) {
+      throw new Error(`No untranslated strings found in ${this.describeFilter(filter)}.`);
     }
+    return page;
+  }
 
-    const entries = results.map(result => result.entry);
-    if (entries.length === 0) {
-      throw new Error(`No fuzzy translations found in loaded files.`);
+  /**
+   * Turns an entry id, or filePath/msgid/msgctxt, into a reference the
+   * update methods accept. An id wins over the other fields.
+   */
+  public resolveEntryReference(locator: EntryLocator): EntryReference {
+    if (locator.id !== undefined) {
+      return this.poFileService.findEntryById(locator.id);
     }
-    return entries;
+    if (locator.filePath === undefined || locator.msgid === undefined) {
+      throw new Error(`Pass either id or filePath and msgid to identify the entry.`);
+    }
+    return { filePath: locator.filePath, msgid: locator.msgid, ...(locator.msgctxt !== undefined && { msgctxt: locator.msgctxt }) };
   }
 
+  public async getEntryContext(request: EntryReference, options: SourceContextOptions = {}): Promise<EntryContext> {
+    const entry = this.poFileService.findEntry(request);
+    return {
+      file: path.resolve(request.filePath),
+      entry,
+      snippets: await this.sourceContextService.getSnippets(entry.references ?? [], options)
+    };
+  }
 
+  /**
+   * Adds the code around each entry's #: references as sourceContext.
+   */
+  public async addSourceContext(entries: UntranslatedEntry[], options: SourceContextOptions = {}): Promise<UntranslatedEntry[]> {
+    return await Promise.all(entries.map(async entry => {
+      if (!entry.references || entry.references.length === 0) return entry;
+      return { ...entry, sourceContext: await this.sourceContextService.getSnippets(entry.references, options) };
+    }));
+  }
 
-  public async updateTranslation(request: UpdateTranslationRequest): Promise<boolean> {
-    try {
-      const success = this.poFileService.updateTranslation(request);
-      if (success) {
-        await this.poFileService.savePOFile(request.filePath);
-        return true;
-      }
-      return false;
-    } catch (error) {
-      // Re-throw the error so the caller knows it failed
-      throw error;
+  public getFuzzyTranslations(filter: CatalogFilter = {}, options: PageOptions = {}): EntryPage<FuzzyEntry> {
+    if (this.poFileService.getLoadedFiles().length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+
+    const searchOptions: SearchOptions = {
+      ...filter,
+      query: '',
+      searchIn: 'msgid',
+      includeUntranslated: false,
+      includeTranslated: false,
+      includeFuzzy: true
+    };
+
+    const page = this.paginate(this.poFileService.searchTranslations(searchOptions), options, result => this.describeSourceChange(result));
+    if (page.total === 0) {
+      throw new Error(`No fuzzy translations found in ${this.describeFilter(filter)}.`);
     }
+    return page;
   }
 
-  public async updateMultipleTranslations(requests: UpdateTranslationRequest[]): Promise<{ success: number; failed: number }> {
-    let success = 0;
-    let failed = 0;
-    const filesToSave = new Set<string>();
-    const updateErrors: string[] = [];
 
-    // First, try to update all translations in memory
-    for (const request of requests) {
+
+  public async updateTranslation(request: UpdateTranslationRequest): Promise<UpdateResult> {
+    // Rejects the update before anything is written if a check fails at error severity
+    this.poFileService.assertPluralShape(request);
+    const entry = this.poFileService.findEntry(request);
+    const warnings = this.validationService.assertValid(entry, request.msgstr, this.getEntryGlossaryTerms(request.filePath, entry));
+    await this.commitUpdates([request]);
+    return { updated: true, warnings };
+  }
+
+  /**
+   * Applies a batch all-or-nothing: every request is looked up (by id, or
+   * filePath/msgid/msgctxt) and validated first, and nothing changes unless
+   * all of them pass. The affected files are then saved together; if saving
+   * fails, the in-memory catalogs are restored and no file is changed.
+   */
+  public async updateMultipleTranslations(requests: (Omit<UpdateTranslationRequest, keyof EntryReference> & EntryLocator)[]): Promise<BatchUpdateResult> {
+    const updates: UpdateTranslationRequest[] = [];
+    const results: BatchItemResult[] = requests.map(request => {
+      let update: UpdateTranslationRequest;
+      let entry: TranslationEntry;
       try {
-        const result = this.poFileService.updateTranslation(request);
-        if (result) {
-          success++;
-          filesToSave.add(request.filePath);
-        } else {
-          failed++;
-          updateErrors.push(`Failed to update "${request.msgid}": entry not found`);
-        }
+        update = {
+          ...this.resolveEntryReference(request),
+          msgstr: request.msgstr,
+          ...(request.fuzzy !== undefined && { fuzzy: request.fuzzy }),
+          ...(request.comment !== undefined && { comment: request.comment })
+        };
+        entry = this.poFileService.findEntry(update);
       } catch (error) {
-        failed++;
-        updateErrors.push(`Failed to update "${request.msgid}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return {
+          ...(request.id !== undefined && { id: request.id }),
+          ...(request.filePath !== undefined && { filePath: request.filePath }),
+          ...(request.msgid !== undefined && { msgid: request.msgid }),
+          ...(request.msgctxt !== undefined && { msgctxt: request.msgctxt }),
+          status: 'not_found',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        };
       }
-    }
 
-    // Then save all modified files, tracking save failures separately
-    const saveErrors: string[] = [];
-    for (const filePath of filesToSave) {
+      updates.push(update);
+      const item: BatchItemResult = {
+        ...(request.id !== undefined && { id: request.id }),
+        filePath: update.filePath,
+        msgid: update.msgid,
+        ...(update.msgctxt !== undefined && { msgctxt: update.msgctxt }),
+        status: 'updated'
+      };
       try {
-        await this.poFileService.savePOFile(filePath);
+        this.poFileService.assertPluralShape(update);
+        const warnings = this.validationService.assertValid(entry, update.msgstr, this.getEntryGlossaryTerms(update.filePath, entry));
+        return { ...item, ...(warnings.length > 0 && { issues: warnings }) };
       } catch (error) {
-        saveErrors.push(`Failed to save file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        // Don't count this as a translation failure, but we should report it
+        return {
+          ...item,
+          status: 'invalid',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          ...(error instanceof ValidationError && { issues: error.issues })
+        };
       }
+    });
+
+    if (results.some(result => result.status !== 'updated')) {
+      return {
+        committed: false,
+        updated: 0,
+        results: results.map(result => result.status === 'updated' ? { ...result, status: 'skipped' } : result)
+      };
     }
 
-    // If there were save errors, include them in a combined error message
-    if (saveErrors.length > 0 || updateErrors.length > 0) {
-      const allErrors = [...updateErrors, ...saveErrors];
-      console.warn(`Translation update issues:\n${allErrors.join('\n')}`);
+    try {
+      await this.commitUpdates(updates);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { committed: false, updated: 0, results: results.map(result => ({ ...result, status: 'save_failed', message })) };
+    }
+    return { committed: true, updated: results.length, results };
+  }
+
+  public async setFlags(request: FlagUpdateRequest): Promise<TranslationEntry> {
+    const entry = this.poFileService.findEntry(request);
+    await this.commitEntries([entry], [request.filePath], () => this.poFileService.setFlags(request));
+    return this.poFileService.findEntry(request);
+  }
+
+  public async rejectTranslation(request: EntryReference, comment?: string): Promise<TranslationEntry> {
+    const entry = this.poFileService.findEntry(request);
+    await this.commitEntries([entry], [request.filePath], () => this.poFileService.clearTranslation(request, comment));
+    return this.poFileService.findEntry(request);
+  }
+
+  /**
+   * Clears the fuzzy flag on every fuzzy entry that is fully translated and
+   * passes validation at error severity. Warnings are reported but do not
+   * block approval.
+   */
+  public async approveFuzzy(options: ApproveOptions = {}): Promise<ApproveReport> {
+    const { limit, dryRun = false, ...filter } = options;
+    const report: ApproveReport = { approved: [], skipped: [] };
+    const fuzzy = this.poFileService.searchTranslations({
+      ...filter,
+      query: '',
+      searchIn: 'msgid',
+      includeUntranslated: false,
+      includeTranslated: false,
+      includeFuzzy: true
+    });
+
+    const approved: { file: string; entry: TranslationEntry }[] = [];
+    for (const { file, entry } of fuzzy) {
+      if (limit !== undefined && approved.length >= limit) break;
+      const reference = { file, msgid: entry.msgid, ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }) };
+      const nplurals = this.poFileService.resolveFiles({ filePath: file })[0]?.nplurals ?? 2;
+      const forms = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+      if (forms.some(form => form.trim() === '') || this.poFileService.getMissingPluralForms(entry, nplurals).length > 0) {
+        report.skipped.push({ ...reference, reason: 'translation is incomplete' });
+        continue;
+      }
+
+      const issues = this.validationService.validate(entry, entry.msgstr, undefined, this.getEntryGlossaryTerms(file, entry));
+      const errors = issues.filter(issue => issue.severity === 'error');
+      if (errors.length > 0) {
+        report.skipped.push({ ...reference, reason: errors.map(issue => issue.message).join('; '), issues: errors });
+        continue;
+      }
+      approved.push({ file, entry });
+      report.approved.push({ ...reference, warnings: issues });
+    }
+
+    if (!dryRun && approved.length > 0) {
+      await this.commitEntries(
+        approved.map(item => item.entry),
+        approved.map(item => item.file),
+        () => approved.forEach(({ file, entry }) => this.poFileService.setFlags({
+          filePath: file,
+          msgid: entry.msgid,
+          ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+          remove: ['fuzzy']
+        }))
+      );
+    }
+    return report;
+  }
+
+  public async listRecentChanges(filter: JournalFilter = {}): Promise<JournalChange[]> {
+    return this.changeJournalService.list({ limit: 20, ...filter });
+  }
+
+  /**
+   * Undoes the most recent saves (all changes saved together count as one),
+   * optionally limited to a file or session.
+   */
+  public async undoLastChanges(count: number = 1, filter: Omit<JournalFilter, 'limit'> = {}): Promise<RevertResult> {
+    const batches = await this.changeJournalService.lastBatches(count, filter);
+    if (batches.length === 0) {
+      throw new Error(`No changes to undo. Use list_recent_changes to see recorded changes.`);
+    }
+    return this.revertChanges(batches.flat());
+  }
+
+  public async revertChange(id: number): Promise<RevertResult> {
+    const change = await this.changeJournalService.get(id);
+    if (change.reverted) {
+      throw new Error(`Change ${id} was already reverted.`);
+    }
+    return this.revertChanges([change]);
+  }
+
+  public getSession(): string {
+    return this.changeJournalService.getSession();
+  }
+
+  public previewPlural(filter: CatalogFilter, values: number[], msgid?: string, msgctxt?: string): PluralPreview[] {
+    if (this.poFileService.getLoadedFiles().length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+
+    return this.poFileService.resolveFiles(filter).map(poFile => {
+      const pluralForms = this.poFileService.getPluralForms(poFile.path);
+      const entry = msgid !== undefined
+        ? this.poFileService.findEntry({ filePath: poFile.path, msgid, ...(msgctxt !== undefined && { msgctxt }) })
+        : undefined;
+
+      return {
+        file: poFile.path,
+        nplurals: pluralForms.nplurals,
+        expression: pluralForms.expression,
+        forms: values.map(n => {
+          const index = pluralForms.evaluate(n);
+          const text = entry && Array.isArray(entry.msgstr) ? entry.msgstr[index] : undefined;
+          return { n, index, ...(text !== undefined && { text }) };
+        })
+      };
+    });
+  }
+
+  public checkTranslations(options: CheckOptions = {}): EntryCheckResult[] {
+    const { checks, includeFuzzy = true, limit, ...filter } = options;
+    if (this.poFileService.getLoadedFiles().length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
     }
 
-    // If files failed to save, we should consider those translations as failed
-    if (saveErrors.length > 0) {
-      // Count how many successful updates were in files that failed to save
-      let affectedSuccesses = 0;
-      for (const request of requests) {
-        if (filesToSave.has(request.filePath)) {
-          // This file had updates but failed to save
-          const fileHadSaveError = saveErrors.some(error => error.includes(request.filePath));
-          if (fileHadSaveError) {
-            affectedSuccesses++;
-          }
+    const results: EntryCheckResult[] = [];
+    for (const poFile of this.poFileService.resolveFiles(filter)) {
+      for (const entry of poFile.entries) {
+        if (entry.obsolete) continue;
+        const flags = entry.flags ?? [];
+        const fuzzy = Array.isArray(flags) ? flags.includes('fuzzy') : Boolean(flags['fuzzy']);
+        if (fuzzy && !includeFuzzy) continue;
+
+        const issues = this.validationService.validate(entry, entry.msgstr, checks, this.getEntryGlossaryTerms(poFile.path, entry));
+        if (issues.length > 0) {
+          results.push({
+            file: poFile.path,
+            ...(entry.lineNumber !== undefined && { lineNumber: entry.lineNumber }),
+            msgid: entry.msgid,
+            ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+            issues
+          });
         }
+        if (limit !== undefined && results.length >= limit) return results;
       }
-      
-      // Adjust counts: move affected successes to failed
-      success -= affectedSuccesses;
-      failed += affectedSuccesses;
     }
+    return results;
+  }
+
+  public compareLanguages(options: LanguageComparisonOptions = {}): LanguageComparison {
+    return this.consistencyService.compareLanguages(options);
+  }
 
-    return { success, failed };
+  public findInconsistencies(options: InconsistencyOptions = {}): Inconsistency[] {
+    return this.consistencyService.findInconsistencies(options);
   }
 
-  public getTranslationStats(filePath?: string): TranslationStats {
-    return this.poFileService.getTranslationStats(filePath);
+  public getTranslationStats(filter: CatalogFilter = {}): TranslationStats {
+    return this.poFileService.getTranslationStats(filter);
   }
 
   public getLoadedFiles(): string[] {
     return this.poFileService.getLoadedFiles();
   }
 
+  public getLoadedPOFiles(filter: CatalogFilter = {}): POFile[] {
+    return this.poFileService.getLoadedPOFiles(filter);
+  }
+
   public isFileLoaded(filePath: string): boolean {
     return this.poFileService.isFileLoaded(filePath);
   }
 
-  public getTranslationsForFile(sourceFilePath: string, options?: { startLine?: number; endLine?: number }): TranslationEntry[] {
+  public getTranslationsForFile(sourceFilePath: string, options?: { startLine?: number; endLine?: number }, filter: CatalogFilter = {}): TranslationEntry[] {
     if (this.poFileService.getLoadedFiles().length === 0) {
       throw new Error(`No files loaded. Use load_po_file first.`);
     }
 
     // Get all translations from all loaded PO files
     const searchOptions: SearchOptions = {
+      ...filter,
       query: '',
       searchIn: 'msgid',
       includeUntranslated: true,
@@ -262,4 +955,222 @@ export class TranslationService {
 
     return filteredEntries;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Matches imported units to the catalog's entries by msgid and msgctxt and
+   * saves the translations that differ through updateMultipleTranslations.
+   * Units that match nothing or whose plural shape changed are reported.
+   */
+  private async applyImport(poFile: POFile, units: CatalogUnit[], options: { fuzzy?: boolean } = {}): Promise<ImportResult> {
+    const nplurals = poFile.nplurals ?? 2;
+    const unmatched: ImportedEntry[] = [];
+    const changed: ImportedEntry[] = [];
+    const requests: UpdateTranslationRequest[] = [];
+    let unchanged = 0;
+    let untranslated = 0;
+    for (const unit of units) {
+      const reference: ImportedEntry = { msgid: unit.msgid, ...(unit.msgctxt !== undefined && { msgctxt: unit.msgctxt }) };
+      const entry = poFile.entries.find(candidate => !candidate.obsolete && candidate.msgid === unit.msgid && candidate.msgctxt === unit.msgctxt);
+      if (!entry) {
+        unmatched.push(reference);
+        continue;
+      }
+      if (unit.msgidPlural !== entry.msgid_plural) {
+        changed.push({ ...reference, reason: entry.msgid_plural === undefined ? 'entry is no longer plural' : `msgid_plural is now "${entry.msgid_plural}"` });
+        continue;
+      }
+      if (entry.msgid_plural !== undefined && unit.targets.length !== nplurals) {
+        changed.push({ ...reference, reason: `unit has ${unit.targets.length} plural forms, catalog expects ${nplurals}` });
+        continue;
+      }
+      if (unit.state === 'new') {
+        untranslated++;
+        continue;
+      }
+
+      const msgstr = entry.msgid_plural !== undefined ? unit.targets : unit.targets[0]!;
+      const fuzzy = options.fuzzy ?? unit.state === 'fuzzy';
+      if (JSON.stringify(msgstr) === JSON.stringify(entry.msgstr) && fuzzy === this.flagList(entry).includes('fuzzy')) {
+        unchanged++;
+        continue;
+      }
+      requests.push({ filePath: poFile.path, ...reference, msgstr, fuzzy });
+    }
+
+    const result = requests.length > 0
+      ? await this.updateMultipleTranslations(requests)
+      : { committed: true, updated: 0, results: [] };
+    return { ...result, file: poFile.path, unchanged, untranslated, unmatched, changed };
+  }
+
+  /**
+   * The source text behind each msgstr form: msgid for the first form and
+   * msgid_plural for the rest, or msgid_plural alone for one-form languages.
+   */
+  private pluralSources(entry: TranslationEntry, nplurals: number): string[] {
+    if (entry.msgid_plural === undefined) return [entry.msgid];
+    if (nplurals === 1) return [entry.msgid_plural];
+    return [entry.msgid, ...Array<string>(nplurals - 1).fill(entry.msgid_plural)];
+  }
+
+  /**
+   * Applies already validated updates in memory and saves the affected files
+   * together. On failure the touched entries get their previous msgstr and
+   * flags back before the error is rethrown.
+   */
+  private async commitUpdates(requests: UpdateTranslationRequest[], options: { fuzzy?: boolean } = {}): Promise<void> {
+    await this.commitEntries(
+      requests.map(request => this.poFileService.findEntry(request)),
+      requests.map(request => request.filePath),
+      () => requests.forEach(request => this.poFileService.updateTranslation(request, options))
+    );
+  }
+
+  /**
+   * Runs apply, which changes the given entries in memory, and saves the
+   * files together. If anything fails, the entries are restored to their
+   * state before apply and the error is rethrown.
+   */
+  private async commitEntries(entries: TranslationEntry[], filePaths: string[], apply: () => void, options: { action?: JournalChange['action'] } = {}): Promise<void> {
+    const snapshots = entries.map(entry => ({ entry, copy: structuredClone(entry) }));
+    try {
+      apply();
+      await this.poFileService.saveFiles(filePaths, options);
+    } catch (error) {
+      // Restore in reverse so an entry captured twice ends up with its original state
+      snapshots.reverse().forEach(({ entry, copy }) => {
+        Object.keys(entry).forEach(key => delete entry[key as keyof TranslationEntry]);
+        Object.assign(entry, copy);
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Puts entries back to their state before the given changes (newest
+   * first). Each change is checked against the state the newer reverts
+   * leave behind, so undoing two edits of one entry restores the first
+   * value. Entries edited again since are left alone and reported.
+   */
+  private async revertChanges(changes: JournalChange[]): Promise<RevertResult> {
+    const result: RevertResult = { reverted: [], skipped: [] };
+    const entries: TranslationEntry[] = [];
+    // msgstr and flags of each entry once the reverts so far are applied
+    const reverted = new Map<TranslationEntry, { msgstr: string | string[]; flags: string[] }>();
+
+    for (const change of changes) {
+      if (!this.poFileService.isFileLoaded(change.file)) {
+        await this.poFileService.loadPOFile(change.file);
+      }
+      let entry: TranslationEntry;
+      try {
+        entry = this.poFileService.findEntry({ filePath: change.file, msgid: change.msgid, ...(change.msgctxt !== undefined && { msgctxt: change.msgctxt }) });
+      } catch {
+        result.skipped.push({ change, reason: 'entry no longer exists' });
+        continue;
+      }
+      const state = reverted.get(entry) ?? { msgstr: entry.msgstr, flags: this.flagList(entry) };
+      if (JSON.stringify(state.msgstr) !== JSON.stringify(change.newMsgstr) || JSON.stringify(state.flags) !== JSON.stringify(change.newFlags)) {
+        result.skipped.push({ change, reason: 'entry was changed again since' });
+        continue;
+      }
+      reverted.set(entry, { msgstr: change.oldMsgstr, flags: change.oldFlags });
+      entries.push(entry);
+      result.reverted.push(change);
+    }
+
+    await this.commitEntries(
+      entries,
+      result.reverted.map(change => change.file),
+      () => result.reverted.forEach(change => this.poFileService.restoreEntry(change, change.oldMsgstr, change.oldFlags)),
+      { action: 'revert' }
+    );
+    await this.changeJournalService.markReverted(result.reverted.map(change => change.id));
+    return result;
+  }
+
+  private flagList(entry: TranslationEntry): string[] {
+    const flags = entry.flags ?? [];
+    return Array.isArray(flags) ? flags : Object.keys(flags).filter(flag => flags[flag]);
+  }
+
+  /**
+   * Adds a word diff from the previous msgid (#| msgid) to the current one,
+   * so only the changed part of the old translation needs fixing.
+   */
+  private describeSourceChange({ id, file, entry }: TranslationSearchResult): FuzzyEntry {
+    const fuzzyEntry: FuzzyEntry = { id, file, ...entry };
+    if (entry.previousMsgid !== undefined) {
+      fuzzyEntry.msgidDiff = diffWords(entry.previousMsgid, entry.msgid);
+      fuzzyEntry.msgidDiffText = formatDiff(fuzzyEntry.msgidDiff);
+    }
+    if (entry.previousMsgidPlural !== undefined && entry.msgid_plural !== undefined) {
+      fuzzyEntry.msgidPluralDiffText = formatDiff(diffWords(entry.previousMsgidPlural, entry.msgid_plural));
+    }
+    if (entry.previousMsgid !== undefined || entry.previousMsgctxt !== undefined) {
+      fuzzyEntry.msgctxtChanged = (entry.previousMsgctxt ?? entry.msgctxt) !== entry.msgctxt;
+    }
+    return fuzzyEntry;
+  }
+
+  /**
+   * Slices search results into a page. The cursor names the last entry of
+   * the previous page by file and position, so the next page starts right
+   * after it no matter how many entries before it dropped out of the list.
+   */
+  private paginate<T>(results: TranslationSearchResult[], options: PageOptions, build: (result: TranslationSearchResult) => T): EntryPage<T> {
+    const files = this.poFileService.getLoadedFiles();
+    const positions = new Map<string, Map<TranslationEntry, number>>();
+    const position = (result: TranslationSearchResult): number => {
+      let indexes = positions.get(result.file);
+      if (!indexes) {
+        const entries = this.poFileService.resolveFiles({ filePath: result.file })[0]?.entries ?? [];
+        indexes = new Map(entries.map((entry, index) => [entry, index]));
+        positions.set(result.file, indexes);
+      }
+      return indexes.get(result.entry) ?? -1;
+    };
+
+    let start = 0;
+    if (options.cursor !== undefined) {
+      const [file, index] = this.decodeCursor(options.cursor);
+      const fileOrder = files.indexOf(file);
+      if (fileOrder === -1) {
+        throw new Error(`Invalid or stale cursor: ${file} is no longer loaded. Start again without cursor.`);
+      }
+      start = results.findIndex(result => {
+        const order = files.indexOf(result.file);
+        return order > fileOrder || (order === fileOrder && position(result) > index);
+      });
+      if (start === -1) start = results.length;
+    }
+    start += options.offset ?? 0;
+    const end = options.limit !== undefined ? start + options.limit : results.length;
+    const page = results.slice(start, end);
+    const last = page[page.length - 1];
+    return {
+      entries: page.map(build),
+      total: results.length,
+      ...(last !== undefined && end < results.length && { nextCursor: Buffer.from(JSON.stringify([last.file, position(last)])).toString('base64url') })
+    };
+  }
+
+  private decodeCursor(cursor: string): [string, number] {
+    try {
+      const [file, index] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as unknown[];
+      if (typeof file === 'string' && typeof index === 'number') return [file, index];
+    } catch {
+      // Reported below
+    }
+    throw new Error(`Invalid or stale cursor: ${cursor}. Use the nextCursor of the previous page, or start again without cursor.`);
+  }
+
+  private describeFilter(filter: CatalogFilter): string {
+    const parts = [
+      filter.filePath,
+      filter.language && `language ${filter.language}`,
+      filter.domain && `domain ${filter.domain}`
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'loaded files';
+  }
+}
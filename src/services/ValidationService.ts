@@ -0,0 +1,242 @@
+import {
+  GlossaryTerm,
+  TranslationEntry,
+  ValidationCheck,
+  ValidationIssue,
+  ValidationPolicy,
+  ValidationSeverity
+} from '../types/index.js';
+import { findPlaceholders, findTags, normalizeTag, placeholderArguments } from '../utils/placeholders.js';
+import { containsTerm } from '../utils/glossary.js';
+
+const DEFAULT_POLICY: ValidationPolicy = {
+  placeholders: 'error',
+  markup: 'error',
+  whitespace: 'warning',
+  newlines: 'warning',
+  punctuation: 'warning',
+  glossary: 'warning'
+};
+
+const CHECKS = Object.keys(DEFAULT_POLICY) as ValidationCheck[];
+
+// Full-width punctuation counts as the same mark as its ASCII counterpart
+const PUNCTUATION_EQUIVALENTS: Record<string, string> = {
+  '。': '.',
+  '．': '.',
+  '！': '!',
+  '？': '?',
+  '：': ':',
+  '；': ';',
+  '…': '...'
+};
+
+// A placeholder or tag: key is what is compared, text what is reported
+interface Token {
+  key: string;
+  text: string;
+}
+
+export class ValidationError extends Error {
+  constructor(message: string, public readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Checks translations against their source string: format placeholders,
+ * markup, surrounding whitespace/newlines, final punctuation and glossary
+ * terms. Each check is an error, a warning or off according to the policy.
+ */
+export class ValidationService {
+  private policy: ValidationPolicy;
+
+  constructor(policy: Partial<ValidationPolicy> = {}) {
+    this.policy = { ...DEFAULT_POLICY, ...policy };
+  }
+
+  /**
+   * Parses a policy such as "punctuation=off,whitespace=error", the format
+   * of the TRANSLATE_PO_VALIDATION environment variable.
+   */
+  public static parsePolicy(spec: string | undefined): Partial<ValidationPolicy> {
+    const policy: Partial<ValidationPolicy> = {};
+    if (!spec) return policy;
+
+    spec.split(',').forEach(part => {
+      const [check, severity] = part.split('=').map(value => value.trim());
+      if (!CHECKS.includes(check as ValidationCheck) || !['error', 'warning', 'off'].includes(severity ?? '')) {
+        throw new Error(`Invalid validation policy "${part}". Use <check>=error|warning|off with checks: ${CHECKS.join(', ')}.`);
+      }
+      policy[check as ValidationCheck] = severity as ValidationSeverity;
+    });
+    return policy;
+  }
+
+  public getPolicy(): ValidationPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Validates msgstr (the entry's own translation by default) against the
+   * entry's msgid/msgid_plural. Empty forms are not checked. The glossary
+   * check only sees the terms passed in, normally those of the catalog's
+   * language.
+   */
+  public validate(entry: TranslationEntry, msgstr: string | string[] = entry.msgstr, checks: ValidationCheck[] = CHECKS, glossary: GlossaryTerm[] = []): ValidationIssue[] {
+    const enabled = checks.filter(check => this.policy[check] !== 'off');
+    const flags = this.getFlags(entry);
+    const forms = Array.isArray(msgstr) ? msgstr : [msgstr];
+    const issues: ValidationIssue[] = [];
+
+    forms.forEach((translation, index) => {
+      if (!translation) return;
+      // msgstr[0] translates the singular msgid, every other form the plural
+      const source = index === 0 || entry.msgid_plural === undefined ? entry.msgid : entry.msgid_plural;
+      const pluralIndex = Array.isArray(msgstr) ? index : undefined;
+
+      enabled.forEach(check => {
+        const message = this.runCheck(check, source, translation, flags, glossary);
+        if (message) {
+          issues.push({
+            check,
+            severity: this.policy[check] as Exclude<ValidationSeverity, 'off'>,
+            message,
+            ...(pluralIndex !== undefined && { pluralIndex })
+          });
+        }
+      });
+    });
+
+    return issues;
+  }
+
+  /**
+   * Throws a ValidationError when any check at error severity fails and
+   * returns the remaining warnings otherwise.
+   */
+  public assertValid(entry: TranslationEntry, msgstr: string | string[], glossary: GlossaryTerm[] = []): ValidationIssue[] {
+    const issues = this.validate(entry, msgstr, CHECKS, glossary);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new ValidationError(
+        `Translation for "${entry.msgid}" rejected: ${errors.map(issue => issue.message).join('; ')}`,
+        issues
+      );
+    }
+    return issues;
+  }
+
+  private runCheck(check: ValidationCheck, source: string, translation: string, flags: string[], glossary: GlossaryTerm[]): string | undefined {
+    switch (check) {
+      case 'placeholders':
+        return this.compareTokens(
+          this.placeholderTokens(source, flags),
+          this.placeholderTokens(translation, flags),
+          'placeholder'
+        );
+      case 'markup':
+        return this.compareTokens(
+          findTags(source).map(match => ({ key: normalizeTag(match.text), text: normalizeTag(match.text) })),
+          findTags(translation).map(match => ({ key: normalizeTag(match.text), text: normalizeTag(match.text) })),
+          'tag'
+        );
+      case 'whitespace':
+        return this.checkWhitespace(source, translation);
+      case 'newlines':
+        return this.checkNewlines(source, translation);
+      case 'punctuation':
+        return this.checkPunctuation(source, translation);
+      case 'glossary':
+        return this.checkGlossary(source, translation, glossary);
+    }
+  }
+
+  /**
+   * Placeholders keyed by the argument they take, so reordered positional
+   * directives still match; messages show them as written.
+   */
+  private placeholderTokens(text: string, flags: string[]): Token[] {
+    const matches = findPlaceholders(text, flags);
+    const keys = placeholderArguments(matches, flags);
+    return matches.map((match, index) => ({ key: keys[index]!, text: match.text }));
+  }
+
+  private compareTokens(expected: Token[], actual: Token[], noun: string): string | undefined {
+    const remaining = [...actual];
+    const missing: string[] = [];
+    expected.forEach(token => {
+      const index = remaining.findIndex(candidate => candidate.key === token.key);
+      if (index === -1) {
+        missing.push(token.text);
+      } else {
+        remaining.splice(index, 1);
+      }
+    });
+
+    const problems: string[] = [];
+    if (missing.length > 0) problems.push(`missing ${noun}${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`);
+    if (remaining.length > 0) problems.push(`unexpected ${noun}${remaining.length > 1 ? 's' : ''} ${remaining.map(token => token.text).join(', ')}`);
+    return problems.length > 0 ? problems.join(', ') : undefined;
+  }
+
+  private checkWhitespace(source: string, translation: string): string | undefined {
+    const leading = (text: string): string => text.match(/^[ \t]*/)![0];
+    const trailing = (text: string): string => text.match(/[ \t]*$/)![0];
+    const problems: string[] = [];
+    if (leading(source) !== leading(translation)) problems.push('leading whitespace differs from source');
+    if (trailing(source) !== trailing(translation)) problems.push('trailing whitespace differs from source');
+    return problems.length > 0 ? problems.join(', ') : undefined;
+  }
+
+  private checkNewlines(source: string, translation: string): string | undefined {
+    const leading = (text: string): number => text.match(/^\n*/)![0].length;
+    const trailing = (text: string): number => text.match(/\n*$/)![0].length;
+    const problems: string[] = [];
+    if (leading(source) !== leading(translation)) {
+      problems.push(`source starts with ${leading(source)} newlines, translation with ${leading(translation)}`);
+    }
+    if (trailing(source) !== trailing(translation)) {
+      problems.push(`source ends with ${trailing(source)} newlines, translation with ${trailing(translation)}`);
+    }
+    return problems.length > 0 ? problems.join(', ') : undefined;
+  }
+
+  private checkPunctuation(source: string, translation: string): string | undefined {
+    const sourceMark = this.finalPunctuation(source);
+    const translationMark = this.finalPunctuation(translation);
+    if (sourceMark === translationMark) return undefined;
+    if (!sourceMark) return `translation ends with "${translationMark}" but source has no final punctuation`;
+    if (!translationMark) return `source ends with "${sourceMark}" but translation has no final punctuation`;
+    return `source ends with "${sourceMark}" but translation ends with "${translationMark}"`;
+  }
+
+  private checkGlossary(source: string, translation: string, glossary: GlossaryTerm[]): string | undefined {
+    const problems = glossary
+      .filter(term => containsTerm(source, term.term, term.caseSensitive))
+      .filter(term => !term.translations.some(expected => this.containsTranslation(translation, expected, term)))
+      .map(term => term.doNotTranslate
+        ? `"${term.term}" must not be translated`
+        : `"${term.term}" should be translated as ${term.translations.map(expected => `"${expected}"`).join(' or ')}`);
+    return problems.length > 0 ? problems.join(', ') : undefined;
+  }
+
+  private containsTranslation(translation: string, expected: string, term: GlossaryTerm): boolean {
+    if (term.doNotTranslate) return containsTerm(translation, expected, true);
+    // Plain substring so compounds and inflections (Datei -> Dateiname) still count
+    return term.caseSensitive ? translation.includes(expected) : translation.toLowerCase().includes(expected.toLowerCase());
+  }
+
+  private finalPunctuation(text: string): string {
+    const match = text.trimEnd().match(/(\.\.\.|[.!?:;…。．！？：；])$/);
+    if (!match) return '';
+    return PUNCTUATION_EQUIVALENTS[match[1]!] ?? match[1]!;
+  }
+
+  private getFlags(entry: TranslationEntry): string[] {
+    if (!entry.flags) return [];
+    const flags = entry.flags;
+    return Array.isArray(flags) ? flags : Object.keys(flags).filter(flag => flags[flag]);
+  }
+}
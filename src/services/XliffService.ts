@@ -0,0 +1,96 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { POFileService } from './POFileService.js';
+import {
+  POFile,
+  TranslationEntry,
+  XliffExportOptions,
+  XliffExportReport
+} from '../types/index.js';
+import { serializeXliff, parseXliff, XliffDocument, XliffUnit } from '../utils/xliff.js';
+
+/**
+ * Converts loaded catalogs to XLIFF for external translation vendors and
+ * reads their XLIFF files back.
+ */
+export class XliffService {
+  constructor(private poFileService: POFileService) {}
+
+  public async export(options: XliffExportOptions): Promise<XliffExportReport[]> {
+    const { outputPath, version = '1.2', sourceLanguage = 'en', untranslatedOnly = false, ...filter } = options;
+    const files = this.poFileService.resolveFiles(filter);
+    if (files.length === 0) {
+      throw new Error(`No files loaded. Use load_po_file first.`);
+    }
+    if (outputPath && files.length > 1) {
+      throw new Error(`outputPath can only be used with a single catalog, but ${files.length} are selected. Pass filePath to pick one.`);
+    }
+
+    const reports: XliffExportReport[] = [];
+    for (const poFile of files) {
+      const output = outputPath ? path.resolve(outputPath) : this.defaultOutputPath(poFile);
+      const units = poFile.entries
+        .filter(entry => !entry.obsolete && entry.msgid !== '')
+        .map(entry => this.toUnit(entry, poFile.nplurals ?? 2))
+        .filter(unit => !untranslatedOnly || unit.state !== 'translated');
+      const document: XliffDocument = {
+        version,
+        sourceLanguage,
+        ...(poFile.language !== undefined && { targetLanguage: poFile.language.replace(/_/g, '-') }),
+        original: poFile.path,
+        units
+      };
+
+      try {
+        await fs.mkdir(path.dirname(output), { recursive: true });
+        await fs.writeFile(output, serializeXliff(document), 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to write XLIFF file ${output}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      reports.push({ source: poFile.path, output, version, units: units.length });
+    }
+    return reports;
+  }
+
+  public async read(xliffPath: string): Promise<XliffDocument> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.resolve(xliffPath), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`XLIFF file not found: ${xliffPath}.`);
+      }
+      throw error;
+    }
+    try {
+      return parseXliff(content);
+    } catch (error) {
+      throw new Error(`Invalid XLIFF file ${xliffPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private toUnit(entry: TranslationEntry, nplurals: number): XliffUnit {
+    const forms = Array.isArray(entry.msgstr) ? entry.msgstr : [entry.msgstr];
+    const targets = entry.msgid_plural !== undefined
+      ? Array.from({ length: Math.max(nplurals, forms.length) }, (_, index) => forms[index] ?? '')
+      : [forms[0] ?? ''];
+    const flags = entry.flags ?? [];
+    const fuzzy = Array.isArray(flags) ? flags.includes('fuzzy') : Boolean(flags['fuzzy']);
+
+    return {
+      msgid: entry.msgid,
+      ...(entry.msgid_plural !== undefined && { msgidPlural: entry.msgid_plural }),
+      ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+      targets,
+      state: targets.every(target => target === '') ? 'new' : fuzzy || targets.some(target => target === '') ? 'fuzzy' : 'translated',
+      developerNotes: entry.comments ?? [],
+      translatorNotes: entry.translatorComments ?? [],
+      references: entry.references ?? []
+    };
+  }
+
+  private defaultOutputPath(poFile: POFile): string {
+    const parsed = path.parse(poFile.path);
+    return path.join(parsed.dir, `${parsed.name}.xlf`);
+  }
+}
@@ -3,23 +3,48 @@ export interface TranslationEntry {
   msgstr: string | string[]; // Support both singular and plural forms
   msgid_plural?: string; // For plural entries
   msgctxt?: string;
-  comments?: string[];
+  translatorComments?: string[]; // "# " comments written by translators
+  comments?: string[]; // "#." comments extracted from the source code
   flags?: string[] | Record<string, boolean>;
   references?: string[];
   obsolete?: boolean;
+  previousMsgid?: string; // "#| msgid" written by merges for fuzzy matches
+  previousMsgidPlural?: string;
+  previousMsgctxt?: string;
+  lineNumber?: number; // 1-based line of the msgid keyword in the source file
 }
 
 export interface POFile {
   path: string;
   headers: Record<string, string | undefined>;
+  headerComments?: string[]; // Comments above the header entry (copyright, license, ...)
+  headerFlags?: string[]; // e.g. 'fuzzy' on a freshly initialised catalog
   entries: TranslationEntry[];
+  nplurals?: number; // From the Plural-Forms header
   lastModified: Date;
+  contentHash?: string; // SHA-256 of the file as last read from or written to disk
+  language?: string; // From the Language header or the <lang>/LC_MESSAGES path
+  domain?: string; // Catalog name, e.g. 'messages' for messages.po
+}
+
+export interface CatalogFilter {
+  filePath?: string;
+  language?: string;
+  domain?: string;
+}
+
+export interface ProjectLoadResult {
+  directory: string;
+  loaded: POFile[];
+  failed: { path: string; error: string }[];
 }
 
 export interface TranslationSearchResult {
+  id: string; // Stable entry id, accepted by the update tools in place of filePath/msgid/msgctxt
   entry: TranslationEntry;
   file: string;
   lineNumber?: number;
+  matchedIn?: SearchField[];
 }
 
 
@@ -30,11 +55,14 @@ export interface TranslationStats {
   untranslated: number;
   fuzzy: number;
   obsolete: number;
+  incompletePlurals: number; // Untranslated entries with only some plural forms filled in
 }
 
-export interface SearchOptions {
+export type SearchField = 'msgid' | 'msgstr' | 'msgctxt' | 'comments' | 'references';
+
+export interface SearchOptions extends CatalogFilter {
   query: string;
-  searchIn: 'msgid' | 'msgstr' | 'both';
+  searchIn: SearchField | 'both' | 'all'; // 'both' = msgid + msgstr, 'all' = every field
   caseSensitive?: boolean;
   regex?: boolean;
   includeUntranslated?: boolean;
@@ -48,10 +76,515 @@ export interface UpdateTranslationRequest {
   msgid: string;
   msgstr: string | string[];
   msgctxt?: string;
+  fuzzy?: boolean; // Keep or add the fuzzy flag so the translation gets reviewed. Default: clear it
+  comment?: string; // Translator comment (#) explaining the change
+}
+
+export type EntryReference = Pick<UpdateTranslationRequest, 'filePath' | 'msgid' | 'msgctxt'>;
+
+// An entry named either by filePath/msgid/msgctxt or by its id
+export type EntryLocator = Partial<EntryReference> & { id?: string };
+
+export interface FlagUpdateRequest extends EntryReference {
+  add?: string[];
+  remove?: string[];
+  comment?: string;
+}
+
+export interface ApproveOptions extends CatalogFilter {
+  limit?: number;
+  dryRun?: boolean;
+}
+
+export interface ApproveReport {
+  approved: { file: string; msgid: string; msgctxt?: string; warnings: ValidationIssue[] }[];
+  skipped: { file: string; msgid: string; msgctxt?: string; reason: string; issues?: ValidationIssue[] }[];
 }
 
 export interface LimitOptions {
   limit?: number;
 }
 
- 
\ No newline at end of file
+export interface PageOptions extends LimitOptions {
+  offset?: number; // Entries to skip, counted after the cursor if one is given
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface EntryPage<T> {
+  entries: T[];
+  total: number; // Matching entries across all pages
+  nextCursor?: string; // Absent on the last page
+}
+
+export interface MergeOptions extends CatalogFilter {
+  potPath: string;
+  poFiles?: string[];
+  fuzzyMatching?: boolean; // Default: true
+  dryRun?: boolean;
+}
+
+export interface FuzzyMatchReport {
+  msgid: string;
+  msgctxt?: string;
+  previousMsgid: string;
+  similarity: number;
+}
+
+export interface MergeReport {
+  file: string;
+  added: string[];
+  obsoleted: string[];
+  removed: string[]; // Untranslated entries dropped because the template no longer has them
+  resurrected: string[];
+  fuzzyMatched: FuzzyMatchReport[];
+  unchanged: number;
+  saved: boolean;
+}
+
+export interface CompileOptions extends CatalogFilter {
+  outputPath?: string; // Only valid when a single catalog is selected
+  includeFuzzy?: boolean; // msgfmt --use-fuzzy
+}
+
+export interface CompileReport {
+  source: string;
+  output: string;
+  messages: number; // Translations written, not counting the header
+  skippedFuzzy: number;
+  skippedUntranslated: number;
+  skippedObsolete: number;
+}
+
+export type ValidationCheck = 'placeholders' | 'markup' | 'whitespace' | 'newlines' | 'punctuation' | 'glossary';
+
+export type ValidationSeverity = 'error' | 'warning' | 'off';
+
+export type ValidationPolicy = Record<ValidationCheck, ValidationSeverity>;
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  severity: Exclude<ValidationSeverity, 'off'>;
+  message: string;
+  pluralIndex?: number;
+}
+
+export interface EntryCheckResult {
+  file: string;
+  lineNumber?: number;
+  msgid: string;
+  msgctxt?: string;
+  issues: ValidationIssue[];
+}
+
+export interface CheckOptions extends CatalogFilter {
+  checks?: ValidationCheck[];
+  includeFuzzy?: boolean; // Default: true
+  limit?: number;
+}
+
+export type BatchItemStatus = 'updated' | 'not_found' | 'invalid' | 'save_failed' | 'skipped';
+
+export interface BatchItemResult {
+  id?: string; // As passed in the request
+  filePath?: string; // Missing only when an unknown id was passed
+  msgid?: string;
+  msgctxt?: string;
+  status: BatchItemStatus; // skipped: valid, but the batch was rejected because of other items
+  message?: string;
+  issues?: ValidationIssue[]; // Validation errors (invalid) or warnings (updated)
+}
+
+export interface BatchUpdateResult {
+  committed: boolean;
+  updated: number;
+  results: BatchItemResult[];
+}
+
+export interface UpdateResult {
+  updated: boolean;
+  warnings: ValidationIssue[];
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface FuzzyEntry extends TranslationEntry {
+  id: string;
+  file: string;
+  // Present when the entry has previous (#|) values, i.e. gettext marked it fuzzy after a source change
+  msgidDiff?: DiffSegment[];
+  msgidDiffText?: string; // [-removed-] and {+added+} words
+  msgidPluralDiffText?: string;
+  msgctxtChanged?: boolean;
+}
+
+export interface UntranslatedEntry extends TranslationEntry {
+  id: string;
+  file: string;
+  missingPluralForms?: number[]; // Set when only some plural forms are filled in
+  glossaryTerms?: GlossaryTerm[]; // Glossary terms that appear in msgid/msgid_plural
+  sourceContext?: SourceSnippet[]; // Code around the #: references, when requested
+}
+
+export interface PluralPreview {
+  file: string;
+  nplurals: number;
+  expression: string;
+  forms: { n: number; index: number; text?: string }[];
+}
+
+export interface TranslationMemoryUnit {
+  msgid: string;
+  msgid_plural?: string;
+  msgctxt?: string;
+  msgstr: string | string[];
+  language?: string;
+  file: string;
+}
+
+export interface TranslationSuggestion extends TranslationMemoryUnit {
+  score: number; // 1 for an exact source match
+  exact: boolean;
+}
+
+export interface SuggestOptions {
+  msgid: string;
+  msgctxt?: string;
+  filePath?: string; // Target catalog: its language selects the memory units, its own entry is excluded
+  language?: string;
+  minScore?: number; // Default: 0.6
+  limit?: number; // Default: 5
+}
+
+export interface PretranslateOptions extends CatalogFilter {
+  minScore?: number; // Default: 0.8
+  dryRun?: boolean;
+  limit?: number;
+}
+
+export interface PretranslateReport {
+  file: string;
+  msgid: string;
+  msgctxt?: string;
+  msgstr: string | string[];
+  source: string; // File the suggestion came from
+  score: number;
+}
+
+export interface GlossaryTerm {
+  term: string;
+  translations: string[]; // Approved translations; the term itself when it is never translated
+  language: string;
+  doNotTranslate: boolean;
+  caseSensitive?: boolean;
+  note?: string;
+}
+
+export interface GlossaryLoadOptions {
+  path: string;
+  language?: string; // Overrides the language in the file or file name
+  sourceLanguage?: string; // TBX only. Default: en
+}
+
+export interface GlossaryLoadResult {
+  path: string;
+  terms: number;
+  languages: string[];
+}
+
+export interface CatalogResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface CatalogResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: { name: string; description: string; required?: boolean }[];
+}
+
+export interface RenderedPrompt {
+  description: string;
+  text: string;
+}
+
+export interface SaveConflict {
+  kind: 'entry' | 'header';
+  key: string; // msgid, or the header name ("comments" for header comments and flags)
+  msgctxt?: string;
+  // Translation (or header value) in each version; absent when the entry does not exist there
+  base?: string | string[];
+  ours?: string | string[];
+  theirs?: string | string[];
+}
+
+export interface JournalChange {
+  id: number;
+  batch: number; // Changes saved together share a batch
+  action: 'edit' | 'revert';
+  file: string;
+  msgid: string;
+  msgctxt?: string;
+  oldMsgstr: string | string[];
+  newMsgstr: string | string[];
+  oldFlags: string[];
+  newFlags: string[];
+  timestamp: string;
+  session: string; // Random per server process
+  author?: string; // From TRANSLATE_PO_AUTHOR
+  reverted?: boolean;
+}
+
+export interface JournalFilter {
+  filePath?: string;
+  session?: string;
+  limit?: number;
+}
+
+export interface RevertResult {
+  reverted: JournalChange[];
+  skipped: { change: JournalChange; reason: string }[];
+}
+
+/**
+ * A machine translation backend. Receives texts with placeholders already
+ * masked and returns one translation per text, in order.
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  readonly maxBatchSize?: number; // Texts per request; the service default applies otherwise
+  translate(texts: string[], sourceLanguage: string, targetLanguage: string): Promise<string[]>;
+}
+
+export interface MachineTranslateOptions extends CatalogFilter {
+  provider?: string; // Default: the configured provider, otherwise pseudo
+  sourceLanguage?: string; // Default: en
+  limit?: number;
+  dryRun?: boolean;
+}
+
+export interface MachineTranslateReport {
+  provider: string;
+  translated: { file: string; msgid: string; msgctxt?: string; msgstr: string | string[] }[];
+  skipped: { file: string; msgid: string; msgctxt?: string; reason: string }[];
+}
+
+export interface PseudolocalizeOptions {
+  filePath: string; // Catalog to fill; created from templatePath when given
+  templatePath?: string; // .pot (or .po) whose msgids the new catalog starts from
+  language?: string; // Language header of a created catalog. Default: en_XA
+  expansion?: number; // Extra length as a fraction of the source. Default: 0.3
+  accents?: boolean; // Default: true
+  markers?: boolean; // Wrap each string in [ ]. Default: true
+  overwrite?: boolean; // Replace existing translations too. Default: false
+}
+
+export interface PseudolocalizeReport {
+  file: string;
+  created: boolean;
+  filled: number;
+  language?: string;
+}
+
+export type XliffVersion = '1.2' | '2.0';
+
+export interface XliffExportOptions extends CatalogFilter {
+  outputPath?: string; // Only with a single catalog. Default: next to the .po with an .xlf extension
+  version?: XliffVersion; // Default: 1.2
+  sourceLanguage?: string; // Default: en
+  untranslatedOnly?: boolean; // Only untranslated and fuzzy entries. Default: false
+}
+
+export interface XliffExportReport {
+  source: string;
+  output: string;
+  version: XliffVersion;
+  units: number;
+}
+
+export interface XliffImportOptions {
+  xliffPath: string;
+  filePath?: string; // Default: the catalog named in the file's original attribute
+}
+
+export interface ImportedEntry {
+  msgid: string;
+  msgctxt?: string;
+  reason?: string;
+}
+
+export interface ImportResult extends BatchUpdateResult {
+  file: string;
+  unchanged: number; // Units whose translation and state already match the catalog
+  untranslated: number; // Units without a translation
+  unmatched: ImportedEntry[]; // No entry with this msgid and msgctxt
+  changed: ImportedEntry[]; // The entry's source text or plural shape no longer matches the unit
+}
+
+/**
+ * A translation read from an exchange file, before it is matched to a
+ * catalog entry. Plural entries carry one target per form.
+ */
+export interface CatalogUnit {
+  msgid: string;
+  msgidPlural?: string;
+  msgctxt?: string;
+  targets: string[];
+  state: 'new' | 'fuzzy' | 'translated';
+}
+
+export type CatalogFormat = 'json' | 'i18next' | 'csv';
+
+export interface CatalogExportOptions extends CatalogFilter {
+  format: CatalogFormat;
+  outputPath?: string; // Only with a single catalog. Default: next to the .po with a .json/.csv extension
+  includeFuzzy?: boolean; // JSON formats: export fuzzy translations as well. Default: false
+  includeUntranslated?: boolean; // JSON formats: export untranslated entries as "". Default: false
+  keySeparator?: string; // i18next: nesting separator, e.g. ".". Default: "" (flat keys)
+}
+
+export interface CatalogExportReport {
+  source: string;
+  output: string;
+  format: CatalogFormat;
+  entries: number;
+}
+
+export interface CatalogImportOptions {
+  path: string;
+  filePath: string;
+  format?: CatalogFormat; // Default: csv for .csv files, json otherwise
+  fuzzy?: boolean; // Mark imported translations fuzzy. Default: CSV fuzzy column, otherwise false
+  keySeparator?: string; // i18next: must match the export. Default: "" (flat keys)
+}
+
+export type EntryStatus = 'translated' | 'fuzzy' | 'untranslated' | 'absent'; // absent: no such entry in that language's catalog
+
+export interface LanguageComparisonOptions {
+  domain?: string;
+  languages?: string[]; // Default: every language with a loaded catalog
+  onlyIncomplete?: boolean; // Only msgids not translated in every language. Default: true
+  limit?: number; // Maximum number of rows. Default: 100
+}
+
+export interface LanguageComparisonRow {
+  domain?: string;
+  msgid: string;
+  msgctxt?: string;
+  status: Record<string, EntryStatus>; // By language
+}
+
+export interface LanguageComparison {
+  languages: string[];
+  stats: Record<string, TranslationStats>; // By language
+  totalRows: number; // Rows before the limit
+  rows: LanguageComparisonRow[];
+}
+
+export interface InconsistencyOptions {
+  language?: string;
+  domain?: string;
+  includeFuzzy?: boolean; // Compare fuzzy translations too. Default: false
+  limit?: number;
+}
+
+export interface TranslationVariant {
+  msgstr: string | string[];
+  files: string[];
+  fuzzy?: boolean;
+}
+
+export interface Inconsistency {
+  language: string;
+  msgid: string;
+  msgctxt?: string;
+  variants: TranslationVariant[]; // Most used first
+}
+
+export interface SourceSnippet {
+  reference: string; // As written in the #: comment, e.g. "src/app.py:42"
+  file?: string; // Resolved path, relative to the source root
+  line?: number;
+  startLine?: number;
+  endLine?: number;
+  code?: string; // Numbered lines; the referenced one is marked with ">"
+  error?: string; // Why the reference could not be shown
+}
+
+export interface SourceContextOptions {
+  contextLines?: number; // Lines before and after the reference. Default: 5
+  maxReferences?: number; // Default: 3
+}
+
+export interface EntryContext {
+  file: string;
+  entry: TranslationEntry;
+  snippets: SourceSnippet[];
+}
+
+export type SourceLanguage = 'python' | 'javascript' | 'jinja';
+
+export interface ExtractOptions {
+  directory?: string; // Default: TRANSLATE_PO_SOURCE_ROOT
+  outputPath: string; // The .pot file to write
+  patterns?: string[]; // Globs relative to directory. Default: Python, JS/TS and Jinja sources
+  ignore?: string[]; // Globs to skip. Default: node_modules, .git, virtualenvs and build output
+  keywords?: string[]; // Extra keyword specs added to the defaults, e.g. "lazy_gettext" or "translate:1c,2"
+  commentTags?: string[]; // Comment prefixes copied to #. lines. Default: ["TRANSLATORS:"]
+  projectName?: string; // For Project-Id-Version
+  projectVersion?: string;
+}
+
+export interface ExtractionWarning {
+  reference: string; // path:line
+  message: string;
+}
+
+export interface ExtractionReport {
+  output: string;
+  files: number; // Source files scanned
+  messages: number; // Distinct msgctxt/msgid pairs written
+  warnings: ExtractionWarning[];
+}
+
+export interface CatalogHeaders {
+  file: string;
+  headers: Record<string, string>;
+  language?: string;
+  domain?: string;
+  nplurals?: number;
+}
+
+export interface InitLocaleOptions {
+  templatePath: string; // .pot template, or an existing .po to copy the msgids from
+  locale: string; // BCP 47 (pt-BR) or POSIX (pt_BR) locale
+  localesDir?: string; // Default: the locales directory next to the template
+  domain?: string; // Default: the template's file name
+  outputPath?: string; // Overrides <localesDir>/<lang>/LC_MESSAGES/<domain>.po
+  pluralForms?: string; // Default: built-in table for the language
+}
+
+export interface InitLocaleReport {
+  file: string;
+  language: string;
+  domain: string;
+  pluralForms: string;
+  entries: number;
+}
@@ -0,0 +1,52 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, newlines and
+ * doubled quotes. Blank lines are skipped.
+ */
+export function parseCSV(content: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]!;
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(field);
+      if (row.length > 1 || row[0] !== '') rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.length > 1 || row[0] !== '') rows.push(row);
+  return rows;
+}
+
+/**
+ * Formats rows as RFC 4180 CSV with CRLF line endings. Fields containing the
+ * delimiter, quotes or line breaks are quoted.
+ */
+export function formatCSV(rows: string[][], delimiter: string = ','): string {
+  const quote = (field: string): string =>
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  return rows.map(row => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,505 @@
+import { SourceLanguage } from '../types/index.js';
+
+/**
+ * A gettext keyword in xgettext's notation: "ngettext:1,2" takes msgid from
+ * the first argument and msgid_plural from the second, "pgettext:1c,2" the
+ * context from the first. Positions are 1-based.
+ */
+export interface KeywordSpec {
+  name: string;
+  msgid: number;
+  plural?: number;
+  context?: number;
+}
+
+export interface ExtractedMessage {
+  msgid: string;
+  msgidPlural?: string;
+  msgctxt?: string;
+  line: number;
+  comments: string[];
+}
+
+export interface ExtractionResult {
+  messages: ExtractedMessage[];
+  warnings: { line: number; message: string }[];
+}
+
+export const DEFAULT_KEYWORDS = ['_', 'gettext', 'ngettext:1,2', 'pgettext:1c,2', 'npgettext:1c,2,3'];
+export const DEFAULT_COMMENT_TAGS = ['TRANSLATORS:'];
+
+type Token =
+  | { type: 'name' | 'punct'; value: string; line: number }
+  | { type: 'string'; value: string | undefined; line: number } // undefined: f-string or template literal with ${}
+  | { type: 'comment'; lines: string[]; line: number; endLine: number }
+  | { type: 'trans'; line: number; msgid: string; msgidPlural?: string; msgctxt?: string }; // Jinja {% trans %} block
+
+type Syntax = 'python' | 'javascript';
+
+const NAME = /[A-Za-z_$\u00c0-\uffff][\w$\u00c0-\uffff]*/y;
+const NUMBER = /[0-9][\w.]*/y;
+const PYTHON_PREFIX = /^(?:[rRuUbBfF]|[rR][bBfF]|[bBfF][rR])$/;
+// Names after which "/" starts a regular expression rather than a division
+const REGEX_KEYWORDS = ['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'instanceof', 'yield', 'await'];
+// A keyword after these is being defined, not called
+const DEFINITIONS = ['def', 'function'];
+const JINJA_TAG = /\{\{([\s\S]*?)\}\}|\{%([\s\S]*?)%\}|\{#([\s\S]*?)#\}/g;
+
+export function parseKeyword(spec: string): KeywordSpec {
+  const match = spec.trim().match(/^([A-Za-z_$][\w$]*)(?::([1-9]\d*c?(?:,[1-9]\d*c?)*))?$/);
+  const positions = match ? (match[2] ?? '1').split(',') : [];
+  const [msgid, plural] = positions.filter(position => !position.endsWith('c')).map(Number);
+  const context = positions.find(position => position.endsWith('c'));
+  if (!match || msgid === undefined) {
+    throw new Error(`Invalid keyword: ${spec}. Use a function name, optionally with argument positions such as "ngettext:1,2" or "pgettext:1c,2".`);
+  }
+  return {
+    name: match[1]!,
+    msgid,
+    ...(plural !== undefined && { plural }),
+    ...(context !== undefined && { context: parseInt(context, 10) })
+  };
+}
+
+/**
+ * Finds keyword calls with string literal arguments in Python, JavaScript/
+ * TypeScript or Jinja source (xgettext/pybabel extract equivalent). Comments
+ * starting with one of the comment tags on the line before a call, or on the
+ * same line, are returned with its message; a tagged comment continues over
+ * the comment lines right after it. Calls with non-literal arguments are
+ * reported as warnings. JSX elements are recognized in JavaScript unless jsx
+ * is false (plain TypeScript, where "<T>" is a type argument).
+ */
+export function extractMessages(content: string, language: SourceLanguage, keywords: KeywordSpec[], commentTags: string[] = DEFAULT_COMMENT_TAGS, jsx = true): ExtractionResult {
+  const tokens = language === 'jinja' ? tokenizeJinja(content) : tokenize(content, language, 1, jsx);
+  const specs = new Map(keywords.map(keyword => [keyword.name, keyword]));
+  const messages: ExtractedMessage[] = [];
+  const warnings: ExtractionResult['warnings'] = [];
+  let comment: { lines: string[]; endLine: number } | undefined;
+  const commentsFor = (line: number): string[] => comment && line - comment.endLine <= 1 ? [...comment.lines] : [];
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index]!;
+    const previous = tokens[index - 1];
+    if (token.type === 'comment') {
+      // A comment after code on the same line belongs to that code
+      const trailing = previous !== undefined && previous.type !== 'comment' && previous.line === token.line;
+      if (!trailing && commentTags.some(tag => token.lines[0]?.startsWith(tag))) {
+        comment = { lines: [...token.lines], endLine: token.endLine };
+      } else if (comment && previous?.type === 'comment' && token.line === comment.endLine + 1) {
+        comment.lines.push(...token.lines);
+        comment.endLine = token.endLine;
+      }
+      continue;
+    }
+    if (token.type === 'trans') {
+      messages.push({
+        msgid: token.msgid,
+        ...(token.msgidPlural !== undefined && { msgidPlural: token.msgidPlural }),
+        ...(token.msgctxt !== undefined && { msgctxt: token.msgctxt }),
+        line: token.line,
+        comments: commentsFor(token.line)
+      });
+      continue;
+    }
+
+    const spec = token.type === 'name' ? specs.get(token.value) : undefined;
+    const next = tokens[index + 1];
+    if (!spec || next?.type !== 'punct' || next.value !== '(') continue;
+    if (previous?.type === 'name' && DEFINITIONS.includes(previous.value)) continue;
+
+    const args = readArguments(tokens, index + 1);
+    const nonLiteral = [spec.context, spec.msgid, spec.plural].find(position => position !== undefined && args[position - 1] === undefined);
+    if (nonLiteral !== undefined) {
+      warnings.push({ line: token.line, message: `${spec.name}() argument ${nonLiteral} is not a string literal; not extracted` });
+      continue;
+    }
+    const msgid = args[spec.msgid - 1]!;
+    if (msgid === '') {
+      warnings.push({ line: token.line, message: `${spec.name}() called with an empty string, which is reserved for the header; not extracted` });
+      continue;
+    }
+    messages.push({
+      msgid,
+      ...(spec.plural !== undefined && { msgidPlural: args[spec.plural - 1]! }),
+      ...(spec.context !== undefined && { msgctxt: args[spec.context - 1]! }),
+      line: token.line,
+      comments: commentsFor(token.line)
+    });
+  }
+
+  return { messages, warnings };
+}
+
+/**
+ * Arguments of the call whose "(" is at the given index; each is its string
+ * value, or undefined unless it is a literal (or literals joined with "+").
+ */
+function readArguments(tokens: Token[], open: number): (string | undefined)[] {
+  const args: (string | undefined)[] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  for (let index = open + 1; index < tokens.length; index++) {
+    const token = tokens[index]!;
+    if (token.type === 'comment') continue;
+    if (token.type === 'punct' && depth === 0 && (token.value === ',' || token.value === ')')) {
+      if (current.length > 0) args.push(literalValue(current));
+      if (token.value === ')') break;
+      current = [];
+      continue;
+    }
+    if (token.type === 'punct' && ['(', '[', '{'].includes(token.value)) depth++;
+    if (token.type === 'punct' && [')', ']', '}'].includes(token.value)) depth--;
+    current.push(token);
+  }
+  return args;
+}
+
+function literalValue(tokens: Token[]): string | undefined {
+  let value = '';
+  let expectString = true;
+  for (const token of tokens) {
+    if (token.type === 'string' && token.value !== undefined) {
+      // Python also joins adjacent literals
+      value += token.value;
+      expectString = false;
+    } else if (token.type === 'punct' && token.value === '+' && !expectString) {
+      expectString = true;
+    } else {
+      return undefined;
+    }
+  }
+  return expectString ? undefined : value;
+}
+
+/**
+ * Splits Python or JavaScript/TypeScript source into the tokens the
+ * extractor needs: names, punctuation, string literals and comments.
+ * Unterminated single-line strings end at the line break, so stray quotes
+ * only affect their own line. With jsx, the text between JSX tags is
+ * skipped (an apostrophe there is not a quote) while the {expressions}
+ * inside elements are tokenized as code.
+ */
+function tokenize(source: string, syntax: Syntax, firstLine: number, jsx = false): Token[] {
+  const tokens: Token[] = [];
+  // Open JSX tags, element children and {expressions}, innermost last
+  const scopes: { kind: 'tag' | 'children' | 'expression'; depth: number }[] = [];
+  let line = firstLine;
+  let index = 0;
+
+  while (index < source.length) {
+    const scope = scopes[scopes.length - 1];
+    if (scope?.kind === 'children') {
+      index = skipJsxText(index);
+      continue;
+    }
+    if (scope?.kind === 'tag') {
+      index = skipJsxTag(index);
+      continue;
+    }
+    const char = source[index]!;
+    if (char === '\n') {
+      line++;
+      index++;
+      continue;
+    }
+    if (/\s/.test(char) || (char === '\\' && syntax === 'python')) {
+      index++;
+      continue;
+    }
+
+    if ((syntax === 'python' && char === '#') || (syntax === 'javascript' && source.startsWith('//', index))) {
+      const end = source.indexOf('\n', index);
+      const stop = end === -1 ? source.length : end;
+      tokens.push({ type: 'comment', lines: [source.slice(index + (char === '#' ? 1 : 2), stop).trim()], line, endLine: line });
+      index = stop;
+      continue;
+    }
+    if (syntax === 'javascript' && source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      const text = source.slice(index + 2, end === -1 ? source.length : end);
+      const lines = text.split('\n').map(part => part.replace(/^\s*\*?/, '').trim()).filter(part => part !== '');
+      const endLine = line + countLines(text);
+      tokens.push({ type: 'comment', lines, line, endLine });
+      line = endLine;
+      index = end === -1 ? source.length : end + 2;
+      continue;
+    }
+
+    NAME.lastIndex = index;
+    const name = NAME.exec(source)?.[0];
+    if (name !== undefined) {
+      const quote = source[index + name.length];
+      if (syntax === 'python' && PYTHON_PREFIX.test(name) && (quote === '"' || quote === '\'')) {
+        index = readString(index + name.length, name.toLowerCase());
+      } else {
+        tokens.push({ type: 'name', value: name, line });
+        index += name.length;
+      }
+      continue;
+    }
+    NUMBER.lastIndex = index;
+    const number = NUMBER.exec(source)?.[0];
+    if (number !== undefined) {
+      tokens.push({ type: 'name', value: number, line });
+      index += number.length;
+      continue;
+    }
+
+    if (char === '"' || char === '\'' || (char === '`' && syntax === 'javascript')) {
+      index = readString(index, '');
+      continue;
+    }
+    if (char === '<' && jsx && syntax === 'javascript' && startsRegex() && startsJsx(index)) {
+      scopes.push({ kind: 'tag', depth: 0 });
+      index++;
+      continue;
+    }
+    if (scope?.kind === 'expression' && (char === '{' || char === '}')) {
+      if (char === '}' && scope.depth === 0) {
+        scopes.pop();
+        index++;
+        continue;
+      }
+      scope.depth += char === '{' ? 1 : -1;
+    }
+    if (char === '/' && syntax === 'javascript' && startsRegex()) {
+      index = skipRegex(index);
+      tokens.push({ type: 'punct', value: 'regex', line });
+      continue;
+    }
+    tokens.push({ type: 'punct', value: char, line });
+    index++;
+  }
+  return tokens;
+
+  function readString(start: number, prefix: string): number {
+    const quote = source[start]!;
+    const triple = syntax === 'python' && source.startsWith(quote.repeat(3), start);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    const multiline = triple || quote === '`';
+    const startLine = line;
+    let interpolated = prefix.includes('f');
+    let raw = '';
+    let position = start + delimiter.length;
+
+    while (position < source.length && !source.startsWith(delimiter, position)) {
+      const next = source[position]!;
+      if (next === '\n' && !multiline) break;
+      if (next === '\\') {
+        raw += source.slice(position, position + 2);
+        position += 2;
+        continue;
+      }
+      if (quote === '`' && source.startsWith('${', position)) {
+        interpolated = true;
+        position = skipInterpolation(position + 2);
+        continue;
+      }
+      raw += next;
+      position++;
+    }
+
+    line += countLines(source.slice(start, position));
+    tokens.push({ type: 'string', value: interpolated ? undefined : prefix.includes('r') ? raw : unescape(raw, syntax), line: startLine });
+    return source.startsWith(delimiter, position) ? position + delimiter.length : position;
+  }
+
+  function skipInterpolation(position: number): number {
+    let depth = 1;
+    while (position < source.length && depth > 0) {
+      if (source[position] === '{') depth++;
+      if (source[position] === '}') depth--;
+      position++;
+    }
+    return position;
+  }
+
+  function startsRegex(): boolean {
+    let position = tokens.length - 1;
+    while (position >= 0 && tokens[position]!.type === 'comment') position--;
+    const previous = tokens[position];
+    if (!previous) return true;
+    if (previous.type === 'punct') return ![')', ']', '}'].includes(previous.value);
+    return previous.type === 'name' && REGEX_KEYWORDS.includes(previous.value);
+  }
+
+  function startsJsx(start: number): boolean {
+    const tag = /<([A-Za-z_$][\w$.:-]*)?\s*/y;
+    tag.lastIndex = start;
+    const match = tag.exec(source);
+    if (!match) return false;
+    const rest = source.slice(start + match[0].length, start + match[0].length + 8);
+    // <T,>(...) and <T extends U>(...) are generic arrow functions
+    if (match[1] === undefined) return rest.startsWith('>');
+    return !rest.startsWith(',') && !/^extends\b/.test(rest);
+  }
+
+  function skipJsxTag(position: number): number {
+    const char = source[position]!;
+    if (char === '\n') line++;
+    if (char === '{') {
+      scopes.push({ kind: 'expression', depth: 0 });
+    } else if (char === '>') {
+      scopes[scopes.length - 1]!.kind = 'children';
+    } else if (source.startsWith('/>', position)) {
+      scopes.pop();
+      return position + 2;
+    } else if (char === '"' || char === '\'') {
+      const end = source.indexOf(char, position + 1);
+      const stop = end === -1 ? source.length : end + 1;
+      line += countLines(source.slice(position + 1, stop));
+      return stop;
+    }
+    return position + 1;
+  }
+
+  function skipJsxText(position: number): number {
+    while (position < source.length && source[position] !== '{' && source[position] !== '<') {
+      if (source[position] === '\n') line++;
+      position++;
+    }
+    if (position >= source.length) return position;
+    if (source[position] === '{') {
+      scopes.push({ kind: 'expression', depth: 0 });
+      return position + 1;
+    }
+    if (source[position + 1] !== '/') {
+      scopes.push({ kind: 'tag', depth: 0 });
+      return position + 1;
+    }
+    // A closing tag ends the element
+    const end = source.indexOf('>', position);
+    const stop = end === -1 ? source.length : end + 1;
+    line += countLines(source.slice(position, stop));
+    scopes.pop();
+    return stop;
+  }
+
+  function skipRegex(start: number): number {
+    let position = start + 1;
+    let inClass = false;
+    while (position < source.length && source[position] !== '\n') {
+      const next = source[position]!;
+      if (next === '\\') {
+        position += 2;
+        continue;
+      }
+      if (next === '[') inClass = true;
+      if (next === ']') inClass = false;
+      if (next === '/' && !inClass) break;
+      position++;
+    }
+    position++;
+    while (position < source.length && /[a-z]/i.test(source[position]!)) position++;
+    return position;
+  }
+}
+
+/**
+ * Tokenizes the expressions and statements of a Jinja template as Python,
+ * turns {% trans %} blocks into messages the way Jinja's i18n extension
+ * does ({{ name }} becomes %(name)s, literal % becomes %%) and keeps
+ * {# #} comments. Template text and {% raw %} blocks are skipped.
+ */
+function tokenizeJinja(source: string): Token[] {
+  const tokens: Token[] = [];
+  let trans: { line: number; msgctxt?: string; trimmed: boolean; parts: [string, string?]; plural: boolean } | undefined;
+  let line = 1;
+  let offset = 0;
+  JINJA_TAG.lastIndex = 0;
+
+  for (let match = JINJA_TAG.exec(source); match !== null; match = JINJA_TAG.exec(source)) {
+    const text = source.slice(offset, match.index);
+    line += countLines(text);
+    if (trans) append(text.replace(/%/g, '%%'));
+    const [tag, expression, statement, comment] = match;
+    const inner = (expression ?? statement ?? comment ?? '').replace(/^[-+]/, '').replace(/[-+]$/, '');
+    const tagLine = line;
+    line += countLines(tag);
+    offset = match.index + tag.length;
+
+    if (comment !== undefined) {
+      const lines = inner.split('\n').map(part => part.trim()).filter(part => part !== '');
+      if (!trans) tokens.push({ type: 'comment', lines, line: tagLine, endLine: line });
+      continue;
+    }
+    if (expression !== undefined) {
+      if (trans) {
+        append(`%(${inner.trim()})s`);
+      } else {
+        tokens.push(...tokenize(inner, 'python', tagLine));
+      }
+      continue;
+    }
+
+    const statementTokens = tokenize(inner, 'python', tagLine);
+    const keyword = statementTokens[0]?.type === 'name' ? statementTokens[0].value : undefined;
+    if (trans) {
+      if (keyword === 'pluralize') trans.plural = true;
+      if (keyword === 'endtrans') {
+        const [singular, plural] = trans.parts.map(part => part !== undefined && trans!.trimmed ? part.trim().replace(/\s*\n\s*/g, ' ') : part);
+        tokens.push({
+          type: 'trans',
+          line: trans.line,
+          msgid: singular!,
+          ...(plural !== undefined && { msgidPlural: plural }),
+          ...(trans.msgctxt !== undefined && { msgctxt: trans.msgctxt })
+        });
+        trans = undefined;
+      }
+    } else if (keyword === 'trans') {
+      const context = statementTokens[1];
+      trans = {
+        line: tagLine,
+        ...(context?.type === 'string' && context.value !== undefined && { msgctxt: context.value }),
+        trimmed: statementTokens.some(token => token.type === 'name' && token.value === 'trimmed'),
+        parts: [''],
+        plural: false
+      };
+    } else if (keyword === 'raw') {
+      const end = /\{%[-+]?\s*endraw\s*[-+]?%\}/g;
+      end.lastIndex = offset;
+      const endMatch = end.exec(source);
+      const stop = endMatch ? endMatch.index + endMatch[0].length : source.length;
+      line += countLines(source.slice(offset, stop));
+      offset = stop;
+      JINJA_TAG.lastIndex = stop;
+    } else {
+      tokens.push(...statementTokens);
+    }
+  }
+  return tokens;
+
+  function append(text: string): void {
+    if (!trans) return;
+    if (trans.plural) {
+      trans.parts[1] = (trans.parts[1] ?? '') + text;
+    } else {
+      trans.parts[0] += text;
+    }
+  }
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+
+function unescape(text: string, syntax: Syntax): string {
+  return text.replace(/\\(?:x([0-9a-fA-F]{2})|u\{([0-9a-fA-F]+)\}|u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})|([0-7]{1,3})|(\r?\n)|([\s\S]))/g,
+    (match, hex?: string, braced?: string, unicode?: string, wide?: string, octal?: string, newline?: string, other?: string) => {
+      const code = hex ?? braced ?? unicode ?? (syntax === 'python' ? wide : undefined);
+      if (code !== undefined) return String.fromCodePoint(parseInt(code, 16));
+      if (octal !== undefined) return syntax === 'python' || octal === '0' ? String.fromCharCode(parseInt(octal, 8)) : octal;
+      if (newline !== undefined) return '';
+      if (other === 'a' && syntax === 'python') return '\x07';
+      if (other !== undefined && SIMPLE_ESCAPES[other] !== undefined) return SIMPLE_ESCAPES[other]!;
+      if (other !== undefined && ['\\', '\'', '"', '`'].includes(other)) return other;
+      // Python keeps unknown escapes as written, JavaScript drops the backslash
+      return syntax === 'python' ? match : (other ?? match.slice(1));
+    });
+}
+
+function countLines(text: string): number {
+  let count = 0;
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) count++;
+  return count;
+}
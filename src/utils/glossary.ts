@@ -0,0 +1,149 @@
+import { GlossaryTerm } from '../types/index.js';
+import { parseCSV } from './csv.js';
+import { decodeXML } from './xml.js';
+
+export interface ParsedGlossaryTerm extends Omit<GlossaryTerm, 'language'> {
+  language?: string;
+}
+
+/**
+ * CSV glossary with a header row. Recognised columns: term (or source),
+ * translation (or target; alternatives separated by "|"), language, note and
+ * case_sensitive. An empty translation marks a term that is never translated.
+ */
+export function parseGlossaryCSV(content: string): ParsedGlossaryTerm[] {
+  const [header, ...rows] = parseCSV(content);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const column = (...names: string[]): number => columns.findIndex(name => names.includes(name));
+  const termColumn = column('term', 'source');
+  const translationColumn = column('translation', 'target');
+  if (termColumn === -1) {
+    throw new Error(`CSV glossary needs a "term" column (found: ${header.join(', ')})`);
+  }
+  const languageColumn = column('language', 'lang', 'locale');
+  const noteColumn = column('note', 'notes', 'comment', 'description');
+  const caseColumn = column('case_sensitive', 'casesensitive');
+
+  return rows
+    .filter(row => (row[termColumn] ?? '').trim() !== '')
+    .map(row => {
+      const cell = (index: number): string => (index === -1 ? '' : (row[index] ?? '').trim());
+      return buildTerm({
+        term: cell(termColumn),
+        translations: cell(translationColumn).split('|').map(value => value.trim()).filter(Boolean),
+        language: cell(languageColumn),
+        note: cell(noteColumn),
+        caseSensitive: /^(1|true|yes|y)$/i.test(cell(caseColumn))
+      });
+    });
+}
+
+/**
+ * JSON glossary: either {"language": "de", "terms": [...]}, a bare array of
+ * term objects, or a plain {"term": "translation"} map. Term objects accept
+ * translation or translations, note, caseSensitive and doNotTranslate.
+ */
+export function parseGlossaryJSON(content: string): { language?: string; terms: ParsedGlossaryTerm[] } {
+  const data = JSON.parse(content) as unknown;
+  const language = isObject(data) && typeof data['language'] === 'string' ? data['language'] : undefined;
+  const list = Array.isArray(data) ? data : isObject(data) && Array.isArray(data['terms']) ? data['terms'] : undefined;
+
+  if (list) {
+    const terms = list.filter(isObject).filter(item => typeof item['term'] === 'string').map(item => {
+      const translations = Array.isArray(item['translations'])
+        ? item['translations'].filter((value): value is string => typeof value === 'string')
+        : typeof item['translation'] === 'string' && item['translation'] !== '' ? [item['translation']] : [];
+      return buildTerm({
+        term: item['term'] as string,
+        translations: item['doNotTranslate'] === true ? [] : translations,
+        language: typeof item['language'] === 'string' ? item['language'] : '',
+        note: typeof item['note'] === 'string' ? item['note'] : '',
+        caseSensitive: item['caseSensitive'] === true
+      });
+    });
+    return { ...(language !== undefined && { language }), terms };
+  }
+
+  if (isObject(data)) {
+    const terms = Object.entries(data)
+      .filter(([key]) => key !== 'language')
+      .map(([term, translation]) => buildTerm({
+        term,
+        translations: typeof translation === 'string' && translation !== '' ? [translation] : [],
+        language: '',
+        note: '',
+        caseSensitive: false
+      }));
+    return { ...(language !== undefined && { language }), terms };
+  }
+
+  throw new Error('JSON glossary must be an object or an array of terms');
+}
+
+/**
+ * TBX (v2 termEntry/langSet/tig and v3 conceptEntry/langSec/termSec). Terms
+ * in the source language become glossary terms, terms in every other
+ * language their approved translations. Deprecated and superseded terms are
+ * ignored.
+ */
+export function parseGlossaryTBX(content: string, sourceLanguage: string): ParsedGlossaryTerm[] {
+  const source = normalizeGlossaryLanguage(sourceLanguage);
+  const terms: ParsedGlossaryTerm[] = [];
+  const entryPattern = /<(termEntry|conceptEntry)\b[^>]*>([\s\S]*?)<\/\1>/g;
+  const langPattern = /<(langSet|langSec)\b[^>]*\bxml:lang\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/\1>/g;
+  const termPattern = /<(tig|ntig|termSec)\b[^>]*>([\s\S]*?)<\/\1>/g;
+
+  for (const [, , entryBody] of content.matchAll(entryPattern)) {
+    const note = decodeXML(entryBody!.match(/<(?:descrip|note)\b[^>]*>([\s\S]*?)<\/(?:descrip|note)>/)?.[1] ?? '').trim();
+    const byLanguage = new Map<string, string[]>();
+
+    for (const [, , lang, langBody] of entryBody!.matchAll(langPattern)) {
+      const values: string[] = [];
+      for (const [, , termBody] of langBody!.matchAll(termPattern)) {
+        if (/(deprecatedTerm|supersededTerm)-admn-sts/.test(termBody!)) continue;
+        const value = termBody!.match(/<term\b[^>]*>([\s\S]*?)<\/term>/)?.[1];
+        if (value !== undefined) values.push(decodeXML(value).trim());
+      }
+      const language = normalizeGlossaryLanguage(lang!);
+      byLanguage.set(language, [...(byLanguage.get(language) ?? []), ...values.filter(Boolean)]);
+    }
+
+    const sourceTerms = byLanguage.get(source) ?? [];
+    for (const [language, translations] of byLanguage) {
+      if (language === source || translations.length === 0) continue;
+      sourceTerms.forEach(term => terms.push(buildTerm({ term, translations, language, note, caseSensitive: false })));
+    }
+  }
+  return terms;
+}
+
+/**
+ * Whether text contains the term as a whole word (or phrase).
+ */
+export function containsTerm(text: string, term: string, caseSensitive: boolean = false): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, caseSensitive ? 'u' : 'iu').test(text);
+}
+
+export function normalizeGlossaryLanguage(language: string): string {
+  return language.trim().replace(/-/g, '_').toLowerCase();
+}
+
+function buildTerm(fields: { term: string; translations: string[]; language: string; note: string; caseSensitive: boolean }): ParsedGlossaryTerm {
+  const doNotTranslate = fields.translations.length === 0;
+  return {
+    term: fields.term,
+    // A term that is never translated must appear unchanged
+    translations: doNotTranslate ? [fields.term] : fields.translations,
+    doNotTranslate,
+    ...(fields.caseSensitive && { caseSensitive: true }),
+    ...(fields.note !== '' && { note: fields.note }),
+    ...(fields.language !== '' && { language: fields.language })
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
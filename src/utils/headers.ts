@@ -0,0 +1,80 @@
+import { parsePluralForms } from './pluralForms.js';
+
+// ll, ll_CC, ll_Scrp, ll_Scrp_CC, each optionally with an @variant (sr@latin)
+const LANGUAGE = /^[a-z]{2,3}(?:_[A-Z][a-z]{3})?(?:_(?:[A-Z]{2}|\d{3}))?(?:@[a-z0-9]+)?$/;
+const UTF8 = ['utf-8', 'utf8'];
+// gettext names scripts as @modifiers (sr@latin) where BCP 47 uses a subtag (sr-Latn)
+const SCRIPT_MODIFIERS: Record<string, string> = { Latn: 'latin', Cyrl: 'cyrillic' };
+
+/**
+ * Checks header values before they are written: Content-Type must declare
+ * UTF-8 (catalogs are read and written as UTF-8), Plural-Forms must parse
+ * and pick a valid form for every n, and Language must be a gettext locale
+ * name. Returns one message per problem; undefined values are removals.
+ */
+export function validateHeaders(headers: Record<string, string | undefined>): string[] {
+  const problems: string[] = [];
+  Object.entries(headers).forEach(([key, value]) => {
+    if (!/^[A-Za-z0-9][\w-]*$/.test(key)) {
+      problems.push(`Invalid header name "${key}": use letters, digits, "-" and "_" only`);
+      return;
+    }
+    if (value === undefined) {
+      if (key === 'Content-Type') problems.push('Content-Type cannot be removed: gettext needs it to know the charset');
+      return;
+    }
+    if (/[\r\n]/.test(value)) {
+      problems.push(`${key} must be a single line`);
+      return;
+    }
+
+    if (key === 'Content-Type') {
+      const charset = value.match(/;\s*charset\s*=\s*([^\s;]+)/i)?.[1];
+      if (!/^text\/plain\b/i.test(value.trim()) || charset === undefined) {
+        problems.push(`Invalid Content-Type "${value}": expected "text/plain; charset=UTF-8"`);
+      } else if (!UTF8.includes(charset.toLowerCase())) {
+        problems.push(`Unsupported charset "${charset}": catalogs are read and written as UTF-8, so Content-Type must say charset=UTF-8`);
+      }
+    }
+    if (key === 'Plural-Forms') {
+      try {
+        const forms = parsePluralForms(value);
+        for (let n = 0; n <= 1000; n++) forms.evaluate(n);
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : `Invalid Plural-Forms "${value}"`);
+      }
+    }
+    if (key === 'Language' && value.trim() !== '' && !LANGUAGE.test(value.trim())) {
+      const suggestion = value.trim().replace(/-/g, '_').replace(/^([A-Za-z]+)/, code => code.toLowerCase()).replace(/_([a-z]{2})$/, (_match, region: string) => `_${region.toUpperCase()}`);
+      problems.push(`Invalid Language "${value}": expected a gettext locale such as de, pt_BR or sr@latin` +
+        (suggestion !== value.trim() && LANGUAGE.test(suggestion) ? ` (did you mean ${suggestion}?)` : ''));
+    }
+  });
+  return problems;
+}
+
+/**
+ * Converts a BCP 47 tag (pt-BR, sr-Latn-RS) or POSIX locale (pt_BR.UTF-8)
+ * to the form gettext uses in Language headers and directory names
+ * (pt_BR, sr_RS@latin).
+ */
+export function toGettextLocale(locale: string): string {
+  const trimmed = locale.trim();
+  if (LANGUAGE.test(trimmed)) return trimmed;
+  const [posix = '', modifier] = trimmed.replace(/\.[\w-]+(?=@|$)/, '').split('@');
+  let tag: string | undefined;
+  try {
+    tag = Intl.getCanonicalLocales(posix.replace(/_/g, '-'))[0];
+  } catch {
+    tag = undefined;
+  }
+  const match = tag?.match(/^([a-z]{2,3})(?:-([A-Z][a-z]{3}))?(?:-([A-Z]{2}|\d{3}))?$/);
+  if (!match) {
+    throw new Error(`Invalid locale "${locale}": expected a language code such as de, pt-BR, pt_BR or sr@latin`);
+  }
+  const [, language, script, region] = match;
+  const scriptModifier = script !== undefined ? SCRIPT_MODIFIERS[script] : undefined;
+  const name = `${language}${script !== undefined && scriptModifier === undefined ? `_${script}` : ''}${region !== undefined ? `_${region}` : ''}`;
+  const variant = modifier ?? scriptModifier;
+  return variant !== undefined ? `${name}@${variant}` : name;
+}
@@ -0,0 +1,171 @@
+import { TranslationEntry } from '../types/index.js';
+
+const MO_MAGIC = 0x950412de;
+const HEADER_SIZE = 28;
+const CONTEXT_SEPARATOR = '\u0004';
+
+export interface MOMessage {
+  key: string; // [msgctxt EOT] msgid [NUL msgid_plural]
+  value: string; // msgstr forms joined with NUL
+}
+
+export interface DecompiledMO {
+  headers: Record<string, string>;
+  entries: TranslationEntry[];
+}
+
+/**
+ * Turns an entry into the key/value pair msgfmt stores: the context is
+ * prefixed with an EOT separator, plural msgids and forms are joined by NUL.
+ */
+export function toMOMessage(entry: TranslationEntry): MOMessage {
+  let key = entry.msgctxt !== undefined ? `${entry.msgctxt}${CONTEXT_SEPARATOR}${entry.msgid}` : entry.msgid;
+  if (entry.msgid_plural !== undefined) {
+    key += `\0${entry.msgid_plural}`;
+  }
+  const value = Array.isArray(entry.msgstr) ? entry.msgstr.join('\0') : entry.msgstr;
+  return { key, value };
+}
+
+/**
+ * Builds a little-endian GNU MO file, including the hash table gettext uses
+ * for lookups. The header message (empty msgid) must be passed in messages.
+ */
+export function compileMO(messages: MOMessage[]): Buffer {
+  const sorted = messages
+    .map(message => ({ key: Buffer.from(message.key, 'utf-8'), value: Buffer.from(message.value, 'utf-8') }))
+    .sort((a, b) => Buffer.compare(a.key, b.key));
+
+  const count = sorted.length;
+  const hashSize = hashTableSize(count);
+  const originalsOffset = HEADER_SIZE;
+  const translationsOffset = originalsOffset + count * 8;
+  const hashOffset = translationsOffset + count * 8;
+  let dataOffset = hashOffset + hashSize * 4;
+
+  const descriptors: { length: number; offset: number }[] = [];
+  const data: Buffer[] = [];
+  const addString = (buffer: Buffer): void => {
+    descriptors.push({ length: buffer.length, offset: dataOffset });
+    data.push(buffer, Buffer.alloc(1));
+    dataOffset += buffer.length + 1;
+  };
+  sorted.forEach(message => addString(message.key));
+  sorted.forEach(message => addString(message.value));
+
+  const table = Buffer.alloc(hashOffset + hashSize * 4);
+  table.writeUInt32LE(MO_MAGIC, 0);
+  table.writeUInt32LE(0, 4);
+  table.writeUInt32LE(count, 8);
+  table.writeUInt32LE(originalsOffset, 12);
+  table.writeUInt32LE(translationsOffset, 16);
+  table.writeUInt32LE(hashSize, 20);
+  table.writeUInt32LE(hashOffset, 24);
+  descriptors.forEach((descriptor, index) => {
+    table.writeUInt32LE(descriptor.length, originalsOffset + index * 8);
+    table.writeUInt32LE(descriptor.offset, originalsOffset + index * 8 + 4);
+  });
+
+  sorted.forEach((message, index) => {
+    // Only the msgid part (up to the plural NUL) is hashed
+    const nul = message.key.indexOf(0);
+    const hash = hashString(nul === -1 ? message.key : message.key.subarray(0, nul));
+    let slot = hash % hashSize;
+    const increment = 1 + (hash % (hashSize - 2));
+    while (table.readUInt32LE(hashOffset + slot * 4) !== 0) {
+      slot += increment;
+      if (slot >= hashSize) slot -= hashSize;
+    }
+    table.writeUInt32LE(index + 1, hashOffset + slot * 4);
+  });
+
+  return Buffer.concat([table, ...data]);
+}
+
+/**
+ * Reads a GNU MO file of either byte order back into entries. The header
+ * message is returned as parsed headers rather than as an entry.
+ */
+export function decompileMO(buffer: Buffer): DecompiledMO {
+  if (buffer.length < HEADER_SIZE) {
+    throw new Error('Invalid MO file: too short');
+  }
+  const littleEndian = buffer.readUInt32LE(0) === MO_MAGIC;
+  if (!littleEndian && buffer.readUInt32BE(0) !== MO_MAGIC) {
+    throw new Error('Invalid MO file: bad magic number');
+  }
+  const readUInt32 = (offset: number): number => (littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset));
+  const readString = (tableOffset: number, index: number): string => {
+    const length = readUInt32(tableOffset + index * 8);
+    const offset = readUInt32(tableOffset + index * 8 + 4);
+    if (offset + length > buffer.length) {
+      throw new Error(`Invalid MO file: string ${index} is out of bounds`);
+    }
+    return buffer.toString('utf-8', offset, offset + length);
+  };
+
+  const count = readUInt32(8);
+  const originalsOffset = readUInt32(12);
+  const translationsOffset = readUInt32(16);
+  const headers: Record<string, string> = {};
+  const entries: TranslationEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const key = readString(originalsOffset, index);
+    const value = readString(translationsOffset, index);
+
+    if (key === '') {
+      value.split('\n').forEach(line => {
+        const separator = line.indexOf(':');
+        if (separator > 0) headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      });
+      continue;
+    }
+
+    const contextEnd = key.indexOf(CONTEXT_SEPARATOR);
+    const msgctxt = contextEnd !== -1 ? key.slice(0, contextEnd) : undefined;
+    const [msgid = '', msgidPlural] = key.slice(contextEnd + 1).split('\0');
+    entries.push({
+      msgid,
+      ...(msgctxt !== undefined && { msgctxt }),
+      ...(msgidPlural !== undefined && { msgid_plural: msgidPlural }),
+      msgstr: msgidPlural !== undefined ? value.split('\0') : value
+    });
+  }
+
+  return { headers, entries };
+}
+
+/**
+ * gettext's hashpjw, on 32-bit unsigned arithmetic.
+ */
+function hashString(bytes: Buffer): number {
+  let hash = 0;
+  for (const byte of bytes) {
+    hash = ((hash << 4) + byte) >>> 0;
+    const high = hash & 0xf0000000;
+    if (high !== 0) {
+      hash = (hash ^ (high >>> 24)) >>> 0;
+      hash = (hash ^ high) >>> 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * msgfmt sizes the table to the next prime above 4/3 of the message count,
+ * with a minimum of 3 so the double-hashing increment stays valid.
+ */
+function hashTableSize(count: number): number {
+  let size = Math.max(3, Math.floor((count * 4) / 3));
+  while (!isPrime(size)) size++;
+  return size;
+}
+
+function isPrime(value: number): boolean {
+  if (value < 2) return false;
+  for (let divisor = 2; divisor * divisor <= value; divisor++) {
+    if (value % divisor === 0) return false;
+  }
+  return true;
+}
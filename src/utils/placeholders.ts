@@ -0,0 +1,145 @@
+export interface PlaceholderMatch {
+  text: string;
+  index: number;
+}
+
+// printf-style directives as gettext's c-format/python-format checks see them:
+// positional (%1$s) and named (%(name)s) arguments, flags, width, precision
+const PRINTF_STRICT = /%%|%(?:\d+\$|\([^)]+\))?[-#0 +']*(?:\*|\d+)?(?:\.(?:\*|\d+))?(?:hh|h|ll|l|L|q|j|z|t)?[diouxXeEfFgGaAcsrp]/g;
+// Without a format flag, a space is not accepted as a printf flag so "100% sure" is not a directive
+const PRINTF_RELAXED = /%%|%(?:\d+\$|\([A-Za-z_]\w*\))?[-#0+']*(?:\*|\d+)?(?:\.(?:\*|\d+))?(?:hh|h|ll|l|L|q|j|z|t)?[diouxXeEfFgGaAcsrp]/g;
+const BRACE_STRICT = /\{\{|\}\}|\{[^{}]*\}/g;
+const BRACE_RELAXED = /\{\{|\}\}|\{(?:[A-Za-z_][\w.]*|\d+)?(?:![rsa])?(?::[^{}]*)?\}/g;
+const TAG = /<\/?([A-Za-z][\w-]*)(?:\s[^<>]*)?\/?>/g;
+
+const PRINTF_FLAGS = ['c-format', 'python-format', 'javascript-format', 'php-format', 'perl-format', 'java-printf-format'];
+
+/**
+ * Finds format placeholders in a string. Entries flagged c-format,
+ * python-format or python-brace-format are scanned for exactly that syntax;
+ * unflagged entries get a conservative guess at both. no-*-format flags
+ * switch the respective syntax off. Escapes (%%, {{, }}) are not placeholders.
+ */
+export function findPlaceholders(text: string, flags: string[] = []): PlaceholderMatch[] {
+  const printfFlagged = flags.some(flag => PRINTF_FLAGS.includes(flag));
+  const braceFlagged = flags.includes('python-brace-format');
+  const explicit = printfFlagged || braceFlagged;
+  const patterns: RegExp[] = [];
+
+  if (printfFlagged) {
+    patterns.push(PRINTF_STRICT);
+  } else if (!explicit && !flags.some(flag => PRINTF_FLAGS.includes(flag.replace(/^no-/, '')))) {
+    patterns.push(PRINTF_RELAXED);
+  }
+  if (braceFlagged) {
+    patterns.push(BRACE_STRICT);
+  } else if (!explicit && !flags.includes('no-python-brace-format')) {
+    patterns.push(BRACE_RELAXED);
+  }
+
+  const matches: PlaceholderMatch[] = [];
+  patterns.forEach(pattern => {
+    for (const match of text.matchAll(pattern)) {
+      if (match[0] === '%%' || match[0] === '{{' || match[0] === '}}') continue;
+      matches.push({ text: match[0], index: match.index ?? 0 });
+    }
+  });
+
+  return matches
+    .sort((a, b) => a.index - b.index)
+    .filter((match, position, sorted) => {
+      const previous = sorted[position - 1];
+      return !previous || match.index >= previous.index + previous.text.length;
+    });
+}
+
+/**
+ * The argument each placeholder refers to, so a translation may reorder them
+ * with positional directives: "%s of %s" and "%2$s von %1$s" both give
+ * %1$s and %2$s. Plain directives (%s, {}) take the next position, positional
+ * (%2$s, {1}) and named (%(name)s, {name}) ones keep theirs. Python's %
+ * operator has no positional form, so python-format entries compare as written.
+ */
+export function placeholderArguments(matches: PlaceholderMatch[], flags: string[] = []): string[] {
+  const positional = !flags.includes('python-format');
+  let printfPosition = 0;
+  let bracePosition = 0;
+  return matches.map(({ text }) => {
+    if (text.startsWith('{')) {
+      const field = text.match(/^\{([^!:}]*)(.*)$/s)!;
+      return field[1] === '' ? `{${bracePosition++}${field[2]}` : text;
+    }
+    const directive = text.match(/^%(\d+\$|\([^)]+\))?(.*)$/s)!;
+    const rest = directive[2]!;
+    if (directive[1] !== undefined || !positional) return text;
+    // A * width or precision takes an argument of its own
+    printfPosition += (rest.match(/\*/g) ?? []).length;
+    return `%${++printfPosition}$${rest}`;
+  });
+}
+
+/**
+ * Finds HTML/XML tags. The text keeps the original tag, including attributes.
+ */
+export function findTags(text: string): PlaceholderMatch[] {
+  return Array.from(text.matchAll(TAG), match => ({ text: match[0], index: match.index ?? 0 }));
+}
+
+/**
+ * Reduces a tag to its name and kind, so translated attribute values
+ * (title, alt) don't count as markup differences.
+ */
+export function normalizeTag(tag: string): string {
+  const match = tag.match(/^<(\/?)([A-Za-z][\w-]*)[^>]*?(\/?)>$/);
+  return match ? `<${match[1]}${match[2]!.toLowerCase()}${match[3]}>` : tag;
+}
+
+export interface MaskedText {
+  text: string;
+  tokens: string[]; // Original placeholder or tag for each mask index
+}
+
+// Plain-word masks survive machine translation better than bracketed ones
+const MASK = /_{1,2}\s*PH\s*(\d+)\s*_{1,2}/gi;
+
+/**
+ * Replaces placeholders and tags with numbered __PH0__ masks, so text can go
+ * through a translator that would otherwise mangle them.
+ */
+export function maskPlaceholders(text: string, flags: string[] = []): MaskedText {
+  const matches = [...findPlaceholders(text, flags), ...findTags(text)]
+    .sort((a, b) => a.index - b.index)
+    .filter((match, position, sorted) => {
+      const previous = sorted[position - 1];
+      return !previous || match.index >= previous.index + previous.text.length;
+    });
+
+  const tokens: string[] = [];
+  let masked = '';
+  let cursor = 0;
+  matches.forEach(match => {
+    masked += `${text.slice(cursor, match.index)}__PH${tokens.length}__`;
+    tokens.push(match.text);
+    cursor = match.index + match.text.length;
+  });
+  return { text: masked + text.slice(cursor), tokens };
+}
+
+/**
+ * Puts the original placeholders back. Returns undefined if a mask was lost
+ * or invented along the way.
+ */
+export function unmaskPlaceholders(text: string, tokens: string[]): string | undefined {
+  const seen = new Set<number>();
+  let valid = true;
+  const restored = text.replace(MASK, (_, index: string) => {
+    const token = tokens[Number(index)];
+    if (token === undefined) {
+      valid = false;
+      return '';
+    }
+    seen.add(Number(index));
+    return token;
+  });
+  return valid && seen.size === tokens.length ? restored : undefined;
+}
@@ -0,0 +1,254 @@
+export interface PluralForms {
+  nplurals: number;
+  expression: string;
+  /** Index of the msgstr form used for n */
+  evaluate(n: number): number;
+}
+
+// gettext's fallback when a catalog has no Plural-Forms header
+export const DEFAULT_PLURAL_FORMS = 'nplurals=2; plural=(n != 1);';
+
+const ONE_FORM = 'nplurals=1; plural=0;';
+const NOT_ONE = 'nplurals=2; plural=(n != 1);';
+const ABOVE_ONE = 'nplurals=2; plural=(n > 1);';
+const EAST_SLAVIC = 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<12 || n%100>14) ? 1 : 2);';
+const WEST_SLAVIC = 'nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);';
+const ONE_TWO_OTHER = 'nplurals=3; plural=(n==1 ? 0 : n==2 ? 1 : 2);';
+const ICELANDIC = 'nplurals=2; plural=(n%10!=1 || n%100==11);';
+
+/**
+ * Plural-Forms for whole numbers, following the CLDR plural rules of each
+ * language. Forms CLDR only uses for fractions (e.g. Russian "many" vs
+ * "other") are left out, as gettext catalogs conventionally do. Region
+ * entries override their language where the rules differ.
+ */
+const PLURAL_FORMS: Record<string, string> = {
+  ...Object.fromEntries(['bo', 'dz', 'id', 'ja', 'jv', 'km', 'ko', 'lo', 'ms', 'my', 'sah', 'su', 'th', 'to', 'vi', 'wo', 'yo', 'yue', 'zh'].map(language => [language, ONE_FORM])),
+  ...Object.fromEntries([
+    'af', 'an', 'ast', 'az', 'bg', 'ca', 'da', 'de', 'el', 'en', 'eo', 'es', 'et', 'eu', 'fi', 'fo', 'fur', 'fy', 'gl', 'ha', 'hu', 'ia', 'it',
+    'ka', 'kk', 'ku', 'ky', 'lb', 'ml', 'mn', 'mr', 'nb', 'ne', 'nl', 'nn', 'no', 'oc', 'or', 'ps', 'rm', 'sc', 'so', 'sq', 'sv', 'sw', 'ta', 'te',
+    'tk', 'tr', 'ug', 'ur', 'uz', 'xh'
+  ].map(language => [language, NOT_ONE])),
+  ...Object.fromEntries(['ak', 'am', 'as', 'bn', 'fa', 'fr', 'gu', 'hi', 'hy', 'kn', 'ln', 'mg', 'pa', 'pt', 'si', 'ti', 'wa', 'zu'].map(language => [language, ABOVE_ONE])),
+  ...Object.fromEntries(['be', 'bs', 'hr', 'ru', 'sr', 'uk'].map(language => [language, EAST_SLAVIC])),
+  ...Object.fromEntries(['cs', 'sk'].map(language => [language, WEST_SLAVIC])),
+  ...Object.fromEntries(['he', 'iu', 'se'].map(language => [language, ONE_TWO_OTHER])),
+  ...Object.fromEntries(['is', 'mk'].map(language => [language, ICELANDIC])),
+  pt_PT: NOT_ONE,
+  fil: 'nplurals=2; plural=(n!=1 && n!=2 && n!=3 && (n%10==4 || n%10==6 || n%10==9));',
+  tl: 'nplurals=2; plural=(n!=1 && n!=2 && n!=3 && (n%10==4 || n%10==6 || n%10==9));',
+  pl: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<12 || n%100>14) ? 1 : 2);',
+  lt: 'nplurals=3; plural=(n%10==1 && (n%100<11 || n%100>19) ? 0 : n%10>=2 && (n%100<11 || n%100>19) ? 1 : 2);',
+  lv: 'nplurals=3; plural=(n%10==0 || (n%100>=11 && n%100<=19) ? 0 : n%10==1 && n%100!=11 ? 1 : 2);',
+  ro: 'nplurals=3; plural=(n==1 ? 0 : n==0 || (n%100>0 && n%100<20) ? 1 : 2);',
+  sl: 'nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);',
+  gd: 'nplurals=4; plural=(n==1 || n==11 ? 0 : n==2 || n==12 ? 1 : n>2 && n<20 ? 2 : 3);',
+  ga: 'nplurals=5; plural=(n==1 ? 0 : n==2 ? 1 : n>=3 && n<=6 ? 2 : n>=7 && n<=10 ? 3 : 4);',
+  mt: 'nplurals=5; plural=(n==1 ? 0 : n==2 ? 1 : n==0 || (n%100>=3 && n%100<=10) ? 2 : n%100>=11 && n%100<=19 ? 3 : 4);',
+  ar: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+  cy: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n==3 ? 3 : n==6 ? 4 : 5);'
+};
+
+/**
+ * The built-in Plural-Forms for a gettext locale (pt_BR, sr@latin, ...):
+ * the region's entry if it has one, otherwise the language's.
+ */
+export function pluralFormsFor(locale: string): string | undefined {
+  const [withRegion = ''] = locale.split('@');
+  const language = withRegion.split('_')[0] ?? '';
+  const region = withRegion.split('_').filter(part => /^(?:[A-Z]{2}|\d{3})$/.test(part))[0];
+  return (region !== undefined ? PLURAL_FORMS[`${language}_${region}`] : undefined) ?? PLURAL_FORMS[language];
+}
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'n' }
+  | { type: 'unary'; operator: string; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'ternary'; condition: Node; then: Node; otherwise: Node };
+
+const TOKEN = /\s*(\d+|n|\|\||&&|==|!=|<=|>=|[<>?:+\-*/%!()])/y;
+
+// Binary operators by precedence, loosest first, as in C
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+/**
+ * Parses a Plural-Forms header ("nplurals=3; plural=(n==1 ? 0 : ...);").
+ * The C expression is compiled by a small recursive-descent parser and
+ * evaluated over its syntax tree, never with eval.
+ */
+export function parsePluralForms(header: string | undefined): PluralForms {
+  const spec = header?.trim() ? header : DEFAULT_PLURAL_FORMS;
+  const nplurals = spec.match(/nplurals\s*=\s*(\d+)/);
+  const plural = spec.match(/plural\s*=\s*([^;]+)/);
+  if (!nplurals?.[1] || !plural?.[1]) {
+    throw new Error(`Invalid Plural-Forms header "${spec}": expected "nplurals=<count>; plural=<expression>;"`);
+  }
+
+  const count = parseInt(nplurals[1], 10);
+  if (count < 1) {
+    throw new Error(`Invalid Plural-Forms header "${spec}": nplurals must be at least 1`);
+  }
+
+  const expression = plural[1].trim();
+  const tree = parseExpression(expression);
+  return {
+    nplurals: count,
+    expression,
+    evaluate: (n: number): number => {
+      const index = evaluate(tree, Math.abs(Math.trunc(n)));
+      if (index < 0 || index >= count) {
+        throw new Error(`Plural expression "${expression}" picked form ${index} for n=${n}, but nplurals is ${count}`);
+      }
+      return index;
+    }
+  };
+}
+
+/**
+ * The CLDR plural category (one, few, other, ...) of each msgstr form, found
+ * by running whole numbers through both the Plural-Forms expression and
+ * Intl.PluralRules. Returns undefined when the language is unknown or the
+ * two don't map one to one.
+ */
+export function pluralCategories(forms: PluralForms, language: string): string[] | undefined {
+  let rules: Intl.PluralRules;
+  try {
+    rules = new Intl.PluralRules(language.replace(/@.*$/, '').replace(/_/g, '-'));
+  } catch {
+    return undefined;
+  }
+
+  const categories = new Array<string | undefined>(forms.nplurals).fill(undefined);
+  const indexes = new Map<string, number>();
+  for (let n = 0; n <= 1000; n++) {
+    let index: number;
+    try {
+      index = forms.evaluate(n);
+    } catch {
+      return undefined;
+    }
+    const category = rules.select(n);
+    if ((categories[index] ?? category) !== category || (indexes.get(category) ?? index) !== index) {
+      return undefined;
+    }
+    categories[index] = category;
+    indexes.set(category, index);
+  }
+  return categories.every(category => category !== undefined) ? categories as string[] : undefined;
+}
+
+function parseExpression(expression: string): Node {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position];
+  const expect = (token: string): void => {
+    if (tokens[position] !== token) {
+      throw new Error(`Invalid plural expression "${expression}": expected "${token}" but found "${tokens[position] ?? 'end of input'}"`);
+    }
+    position++;
+  };
+
+  const parseTernary = (): Node => {
+    const condition = parseBinary(0);
+    if (peek() !== '?') return condition;
+    position++;
+    const then = parseTernary();
+    expect(':');
+    const otherwise = parseTernary();
+    return { type: 'ternary', condition, then, otherwise };
+  };
+
+  const parseBinary = (level: number): Node => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (BINARY_LEVELS[level]!.includes(peek() ?? '')) {
+      const operator = tokens[position++]!;
+      left = { type: 'binary', operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    const token = peek();
+    if (token === '!' || token === '-') {
+      position++;
+      return { type: 'unary', operator: token, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[position++];
+    if (token === 'n') return { type: 'n' };
+    if (token !== undefined && /^\d+$/.test(token)) return { type: 'number', value: parseInt(token, 10) };
+    if (token === '(') {
+      const inner = parseTernary();
+      expect(')');
+      return inner;
+    }
+    throw new Error(`Invalid plural expression "${expression}": unexpected "${token ?? 'end of input'}"`);
+  };
+
+  const tree = parseTernary();
+  if (position < tokens.length) {
+    throw new Error(`Invalid plural expression "${expression}": unexpected "${tokens[position]}"`);
+  }
+  return tree;
+}
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    if (expression.slice(TOKEN.lastIndex).trim() === '') break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      throw new Error(`Invalid plural expression "${expression}": unexpected character at position ${start}`);
+    }
+    tokens.push(match[1]!);
+  }
+  return tokens;
+}
+
+function evaluate(node: Node, n: number): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'n':
+      return n;
+    case 'unary': {
+      const value = evaluate(node.operand, n);
+      return node.operator === '!' ? Number(value === 0) : -value;
+    }
+    case 'ternary':
+      return evaluate(node.condition, n) !== 0 ? evaluate(node.then, n) : evaluate(node.otherwise, n);
+    case 'binary': {
+      // Short-circuit like C
+      if (node.operator === '||') return Number(evaluate(node.left, n) !== 0 || evaluate(node.right, n) !== 0);
+      if (node.operator === '&&') return Number(evaluate(node.left, n) !== 0 && evaluate(node.right, n) !== 0);
+
+      const left = evaluate(node.left, n);
+      const right = evaluate(node.right, n);
+      switch (node.operator) {
+        case '==': return Number(left === right);
+        case '!=': return Number(left !== right);
+        case '<': return Number(left < right);
+        case '<=': return Number(left <= right);
+        case '>': return Number(left > right);
+        case '>=': return Number(left >= right);
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+        case '%':
+          if (right === 0) throw new Error('Division by zero in plural expression');
+          return node.operator === '/' ? Math.trunc(left / right) : left % right;
+        default:
+          throw new Error(`Unsupported operator "${node.operator}" in plural expression`);
+      }
+    }
+  }
+}
@@ -0,0 +1,500 @@
+import { TranslationEntry } from '../types/index.js';
+
+// gettext's default --width: lines are wrapped so they fit in 79 columns
+const WRAP_WIDTH = 79;
+
+export interface ParsedPO {
+  headers: Record<string, string>;
+  headerComments: string[];
+  headerFlags: string[];
+  entries: TranslationEntry[];
+  layout: POLayout;
+}
+
+/**
+ * What the catalog needs to be written back: headers, header comments and
+ * entries in file order. POFile satisfies this shape.
+ */
+export interface POCatalog {
+  headers: Record<string, string | undefined>;
+  headerComments?: string[];
+  headerFlags?: string[];
+  entries: TranslationEntry[];
+  nplurals?: number;
+}
+
+/**
+ * The original text of each entry, keyed by entry identity, together with the
+ * blank lines that preceded it. Entries whose content still matches their
+ * fingerprint are written back verbatim.
+ */
+export interface POLayout {
+  header?: RawBlock;
+  entries: Map<string, RawBlock>;
+  trailing: string[];
+  eol: '\n' | '\r\n';
+}
+
+interface RawBlock {
+  gap: string[];
+  lines: string[];
+  fingerprint: string;
+}
+
+type StringField = 'msgctxt' | 'msgid' | 'msgid_plural' | 'msgstr';
+
+interface EntryBuilder {
+  entry: TranslationEntry;
+  field?: StringField;
+  pluralIndex?: number;
+  previous: boolean;
+  hasKeyword: boolean;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Parses the text of a .po/.pot file. Understands every line type gettext
+ * writes: translator (#), extracted (#.), reference (#:), flag (#,) and
+ * previous-value (#|) comments, obsolete (#~) entries, msgctxt, plurals and
+ * multi-line strings.
+ */
+export function parsePO(content: string): ParsedPO {
+  const rawLines = content.split('\n');
+  const entries: TranslationEntry[] = [];
+  const layout: POLayout = {
+    entries: new Map(),
+    trailing: [],
+    eol: content.includes('\r\n') ? '\r\n' : '\n'
+  };
+  let header: TranslationEntry | undefined;
+  let current: EntryBuilder | undefined;
+  let lastEnd = -1;
+
+  const finish = (): void => {
+    if (!current || !current.hasKeyword) {
+      // Stray comments without strings stay in the gap before the next entry
+      current = undefined;
+      return;
+    }
+    const { entry, startLine, endLine } = current;
+    const block = {
+      gap: rawLines.slice(lastEnd + 1, startLine),
+      lines: rawLines.slice(startLine, endLine + 1)
+    };
+    lastEnd = endLine;
+
+    if (header === undefined && entry.msgid === '' && entry.msgctxt === undefined && !entry.obsolete) {
+      header = entry;
+      const parsedHeader = headerFromEntry(entry);
+      layout.header = { ...block, fingerprint: fingerprintHeader(parsedHeader) };
+    } else {
+      if (entry.msgid_plural !== undefined && !Array.isArray(entry.msgstr)) {
+        entry.msgstr = [entry.msgstr];
+      }
+      entries.push(entry);
+      const key = layoutKey(entry);
+      if (!layout.entries.has(key)) {
+        layout.entries.set(key, { ...block, fingerprint: fingerprintEntry(entry) });
+      }
+    }
+    current = undefined;
+  };
+
+  const start = (index: number): EntryBuilder => {
+    if (!current) {
+      current = { entry: { msgid: '', msgstr: '' }, previous: false, hasKeyword: false, startLine: index, endLine: index };
+    }
+    current.endLine = index;
+    return current;
+  };
+
+  rawLines.forEach((rawLine, index) => {
+    let line = rawLine.trim();
+    if (line === '') {
+      finish();
+      return;
+    }
+
+    let obsolete = false;
+    if (line.startsWith('#~')) {
+      obsolete = true;
+      line = line.slice(2).trim();
+      // "#~| msgid ..." is the previous value of an obsolete entry
+      if (line.startsWith('|')) line = `#${line}`;
+      if (line === '') {
+        if (current) current.endLine = index;
+        return;
+      }
+    }
+
+    if (line.startsWith('#')) {
+      // A comment after the strings of an entry starts the next entry
+      if (current?.hasKeyword) finish();
+      const builder = start(index);
+      parseCommentLine(builder, line);
+      return;
+    }
+
+    const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s*(".*")$/);
+    if (keyword) {
+      const field = keyword[1] as StringField;
+      if (current?.hasKeyword && (field === 'msgctxt' || (field === 'msgid' && current.field !== 'msgctxt'))) {
+        finish();
+      }
+      const builder = start(index);
+      builder.hasKeyword = true;
+      builder.previous = false;
+      builder.field = field;
+      if (obsolete) builder.entry.obsolete = true;
+
+      const value = unescapePOString(keyword[3]!);
+      if (field === 'msgstr' && keyword[2] !== undefined) {
+        const pluralIndex = parseInt(keyword[2], 10);
+        const forms = Array.isArray(builder.entry.msgstr) ? builder.entry.msgstr : [];
+        forms[pluralIndex] = value;
+        builder.entry.msgstr = forms;
+        builder.pluralIndex = pluralIndex;
+      } else {
+        builder.entry[field] = value;
+        delete builder.pluralIndex;
+      }
+      if (field === 'msgid') {
+        builder.entry.lineNumber = index + 1;
+      }
+      return;
+    }
+
+    if (line.startsWith('"') && current?.field) {
+      current.endLine = index;
+      appendToField(current, unescapePOString(line));
+      return;
+    }
+
+    throw new Error(`Unexpected content at line ${index + 1}: ${line}`);
+  });
+  finish();
+  layout.trailing = rawLines.slice(lastEnd + 1);
+
+  const { headers, headerComments, headerFlags } = header ? headerFromEntry(header) : { headers: {}, headerComments: [], headerFlags: [] };
+  return { headers, headerComments, headerFlags, entries, layout };
+}
+
+function parseCommentLine(builder: EntryBuilder, line: string): void {
+  const { entry } = builder;
+  const marker = line.slice(0, 2);
+  const text = line.slice(2).trim();
+
+  switch (marker) {
+    case '#.':
+      (entry.comments ??= []).push(text);
+      break;
+    case '#:':
+      (entry.references ??= []).push(...text.split(/\s+/).filter(ref => ref !== ''));
+      break;
+    case '#,': {
+      const flags = text.split(',').map(flag => flag.trim()).filter(flag => flag !== '');
+      entry.flags = [...normalizeFlagList(entry.flags), ...flags];
+      break;
+    }
+    case '#|': {
+      const previous = text.match(/^(msgctxt|msgid_plural|msgid)\s*(".*")$/);
+      if (previous) {
+        const key = PREVIOUS_FIELDS[previous[1] as keyof typeof PREVIOUS_FIELDS];
+        entry[key] = unescapePOString(previous[2]!);
+        builder.previous = true;
+        builder.field = previous[1] as StringField;
+      } else if (text.startsWith('"') && builder.previous) {
+        const key = PREVIOUS_FIELDS[builder.field as keyof typeof PREVIOUS_FIELDS];
+        entry[key] = (entry[key] ?? '') + unescapePOString(text);
+      }
+      break;
+    }
+    default:
+      // "# text", a bare "#" and any unrecognised marker are translator comments
+      (entry.translatorComments ??= []).push(line.slice(1).replace(/^ /, '').trimEnd());
+      break;
+  }
+}
+
+const PREVIOUS_FIELDS = {
+  msgctxt: 'previousMsgctxt',
+  msgid: 'previousMsgid',
+  msgid_plural: 'previousMsgidPlural'
+} as const;
+
+function appendToField(builder: EntryBuilder, value: string): void {
+  const { entry, field } = builder;
+  if (field === 'msgstr') {
+    if (builder.pluralIndex !== undefined && Array.isArray(entry.msgstr)) {
+      entry.msgstr[builder.pluralIndex] = (entry.msgstr[builder.pluralIndex] ?? '') + value;
+    } else {
+      entry.msgstr = getMsgstrText(entry.msgstr) + value;
+    }
+  } else if (field) {
+    entry[field] = (entry[field] ?? '') + value;
+  }
+}
+
+function headerFromEntry(entry: TranslationEntry): { headers: Record<string, string>; headerComments: string[]; headerFlags: string[] } {
+  const headers: Record<string, string> = {};
+  getMsgstrText(entry.msgstr).split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  });
+  return {
+    headers,
+    headerComments: entry.translatorComments ?? [],
+    headerFlags: normalizeFlagList(entry.flags)
+  };
+}
+
+function getMsgstrText(msgstr: string | string[]): string {
+  return Array.isArray(msgstr) ? msgstr[0] ?? '' : msgstr;
+}
+
+function normalizeFlagList(flags: TranslationEntry['flags']): string[] {
+  if (!flags) return [];
+  return Array.isArray(flags) ? flags : Object.keys(flags).filter(flag => flags[flag]);
+}
+
+export function layoutKey(entry: TranslationEntry): string {
+  return `${entry.obsolete ? '~' : ''}${entry.msgctxt !== undefined ? `${entry.msgctxt}\u0004` : ''}${entry.msgid}`;
+}
+
+/**
+ * Everything gettext writes for an entry, normalised so that an entry loaded
+ * and left alone always produces the same fingerprint.
+ */
+export function fingerprintEntry(entry: TranslationEntry): string {
+  return JSON.stringify([
+    entry.translatorComments ?? [],
+    entry.comments ?? [],
+    entry.references ?? [],
+    normalizeFlagList(entry.flags),
+    entry.previousMsgctxt ?? null,
+    entry.previousMsgid ?? null,
+    entry.previousMsgidPlural ?? null,
+    entry.msgctxt ?? null,
+    entry.msgid,
+    entry.msgid_plural ?? null,
+    Array.isArray(entry.msgstr) ? Array.from(entry.msgstr, form => form ?? '') : entry.msgstr,
+    entry.obsolete ?? false
+  ]);
+}
+
+export function fingerprintHeader(catalog: Pick<POCatalog, 'headers' | 'headerComments' | 'headerFlags'>): string {
+  return JSON.stringify([
+    Object.entries(catalog.headers).filter(header => header[1] !== undefined),
+    catalog.headerComments ?? [],
+    catalog.headerFlags ?? []
+  ]);
+}
+
+/**
+ * Serializes a catalog into .po text. With the layout from parsePO, entries
+ * that were not modified keep their original text and spacing byte for byte;
+ * new and modified entries use gettext's layout (canonical comment order,
+ * strings wrapped at 79 columns, obsolete entries prefixed with "#~").
+ */
+export function serializePO(catalog: POCatalog, layout?: POLayout): string {
+  const eol = layout?.eol ?? '\n';
+  const canonical = (text: string): string[] =>
+    text.split('\n').map(line => (eol === '\r\n' ? `${line}\r` : line));
+  const output: string[] = [];
+
+  const writeBlock = (block: RawBlock | undefined, fingerprint: string, render: () => string): void => {
+    if (block && block.fingerprint === fingerprint) {
+      output.push(...block.gap, ...block.lines);
+      return;
+    }
+    const gap = block ? block.gap : output.length > 0 ? canonical('') : [];
+    output.push(...gap, ...canonical(render()));
+  };
+
+  const hasHeader = Object.keys(catalog.headers).length > 0 || (catalog.headerComments ?? []).length > 0;
+  if (!layout || layout.header || hasHeader) {
+    writeBlock(layout?.header, fingerprintHeader(catalog), () => serializeHeader(catalog));
+  }
+  catalog.entries.forEach(entry => {
+    writeBlock(layout?.entries.get(layoutKey(entry)), fingerprintEntry(entry), () => serializeEntry(entry, catalog.nplurals));
+  });
+  output.push(...(layout ? layout.trailing : ['']));
+
+  return output.join('\n');
+}
+
+function serializeHeader(catalog: POCatalog): string {
+  const lines = (catalog.headerComments ?? []).map(comment => `# ${comment}`.trimEnd());
+  if (catalog.headerFlags && catalog.headerFlags.length > 0) {
+    lines.push(`#, ${catalog.headerFlags.join(', ')}`);
+  }
+  const headerText = Object.entries(catalog.headers)
+    .filter((header): header is [string, string] => header[1] !== undefined)
+    .map(([key, value]) => `${key}: ${value}\n`)
+    .join('');
+  lines.push(...formatString('msgid', ''), ...formatString('msgstr', headerText));
+  return lines.join('\n');
+}
+
+export function serializeEntry(entry: TranslationEntry, nplurals: number = 2): string {
+  const lines: string[] = [];
+  const prefix = entry.obsolete ? '#~ ' : '';
+
+  (entry.translatorComments ?? []).forEach(comment => lines.push(`# ${comment}`.trimEnd()));
+  (entry.comments ?? []).forEach(comment => lines.push(`#. ${comment}`.trimEnd()));
+  if (entry.references && entry.references.length > 0) {
+    lines.push(...wrapWords('#:', entry.references));
+  }
+  const flags = normalizeFlagList(entry.flags);
+  if (flags.length > 0) {
+    lines.push(`#, ${flags.join(', ')}`);
+  }
+
+  const previousPrefix = entry.obsolete ? '#~| ' : '#| ';
+  if (entry.previousMsgctxt !== undefined) {
+    lines.push(...formatString('msgctxt', entry.previousMsgctxt, previousPrefix));
+  }
+  if (entry.previousMsgid !== undefined) {
+    lines.push(...formatString('msgid', entry.previousMsgid, previousPrefix));
+  }
+  if (entry.previousMsgidPlural !== undefined) {
+    lines.push(...formatString('msgid_plural', entry.previousMsgidPlural, previousPrefix));
+  }
+
+  if (entry.msgctxt !== undefined) {
+    lines.push(...formatString('msgctxt', entry.msgctxt, prefix));
+  }
+  lines.push(...formatString('msgid', entry.msgid, prefix));
+  if (entry.msgid_plural !== undefined) {
+    lines.push(...formatString('msgid_plural', entry.msgid_plural, prefix));
+    const forms = Array.isArray(entry.msgstr) && entry.msgstr.length > 0
+      ? Array.from(entry.msgstr, form => form ?? '')
+      : [getMsgstrText(entry.msgstr), ...new Array<string>(Math.max(nplurals - 1, 0)).fill('')];
+    forms.forEach((form, index) => {
+      lines.push(...formatString(`msgstr[${index}]`, form, prefix));
+    });
+  } else {
+    lines.push(...formatString('msgstr', getMsgstrText(entry.msgstr), prefix));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats a keyword and its string the way msgcat does: on one line when it
+ * fits and has no embedded newline, otherwise as an empty first line followed
+ * by one quoted line per segment.
+ */
+function formatString(keyword: string, value: string, prefix: string = ''): string[] {
+  const escaped = escapePOString(value);
+  const singleLine = `${prefix}${keyword} "${escaped}"`;
+  const newlineIndex = escaped.indexOf('\\n');
+  const hasInnerNewline = newlineIndex !== -1 && newlineIndex < escaped.length - 2;
+
+  if (!hasInnerNewline && singleLine.length <= WRAP_WIDTH) {
+    return [singleLine];
+  }
+
+  const lines = [`${prefix}${keyword} ""`];
+  const segments = escaped.split(/(?<=\\n)/);
+  const available = WRAP_WIDTH - prefix.length - 2;
+  segments.forEach(segment => {
+    wrapSegment(segment, available).forEach(part => lines.push(`${prefix}"${part}"`));
+  });
+  return lines;
+}
+
+function wrapSegment(segment: string, width: number): string[] {
+  const parts: string[] = [];
+  let rest = segment;
+  while (rest.length > width) {
+    const breakAt = rest.lastIndexOf(' ', width - 1);
+    if (breakAt <= 0) {
+      const nextSpace = rest.indexOf(' ', width);
+      if (nextSpace === -1) break;
+      parts.push(rest.slice(0, nextSpace + 1));
+      rest = rest.slice(nextSpace + 1);
+    } else {
+      parts.push(rest.slice(0, breakAt + 1));
+      rest = rest.slice(breakAt + 1);
+    }
+  }
+  if (rest !== '' || parts.length === 0) parts.push(rest);
+  return parts;
+}
+
+function wrapWords(marker: string, words: string[]): string[] {
+  const lines: string[] = [];
+  let line = marker;
+  words.forEach(word => {
+    if (line !== marker && line.length + 1 + word.length > WRAP_WIDTH) {
+      lines.push(line);
+      line = marker;
+    }
+    line += ` ${word}`;
+  });
+  lines.push(line);
+  return lines;
+}
+
+export function escapePOString(value: string): string {
+  return value.replace(/[\\"\n\t\r\x07\b\f\v]/g, char => {
+    switch (char) {
+      case '\n':
+        return '\\n';
+      case '\t':
+        return '\\t';
+      case '\r':
+        return '\\r';
+      case '\x07':
+        return '\\a';
+      case '\b':
+        return '\\b';
+      case '\f':
+        return '\\f';
+      case '\v':
+        return '\\v';
+      default:
+        return `\\${char}`;
+    }
+  });
+}
+
+export function unescapePOString(quoted: string): string {
+  const inner = quoted.trim().replace(/^"|"$/g, '');
+  return inner.replace(/\\(?:([0-7]{1,3})|x([0-9a-fA-F]{2})|(.))/g, (_match, octal: string | undefined, hex: string | undefined, char: string) => {
+    if (octal !== undefined) return String.fromCharCode(parseInt(octal, 8));
+    if (hex !== undefined) return String.fromCharCode(parseInt(hex, 16));
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      case 'a':
+        return '\x07';
+      case 'b':
+        return '\b';
+      case 'f':
+        return '\f';
+      case 'v':
+        return '\v';
+      default:
+        return char;
+    }
+  });
+}
+
+/**
+ * Formats a date the way gettext writes POT-Creation-Date and
+ * PO-Revision-Date, e.g. "2024-05-01 14:30+0200" (local time).
+ */
+export function formatPODate(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const offset = -date.getTimezoneOffset();
+  const zone = `${offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}${zone}`;
+}
@@ -0,0 +1,100 @@
+import { SaveConflict, TranslationEntry } from '../types/index.js';
+import { POCatalog, fingerprintEntry, fingerprintHeader, layoutKey } from './poFormat.js';
+
+export interface CatalogMergeResult {
+  merged: POCatalog;
+  conflicts: SaveConflict[];
+}
+
+/**
+ * Three-way merge of two edited versions of a catalog against the version
+ * both started from. A change on one side only is taken as is; entries and
+ * headers changed differently on both sides are conflicts. The result keeps
+ * the entry order of theirs, with entries only we added appended.
+ */
+export function mergeCatalogs(base: POCatalog, ours: POCatalog, theirs: POCatalog): CatalogMergeResult {
+  const conflicts: SaveConflict[] = [];
+  const baseEntries = indexEntries(base.entries);
+  const ourEntries = indexEntries(ours.entries);
+  const theirEntries = indexEntries(theirs.entries);
+
+  const keys = [...theirEntries.keys(), ...Array.from(ourEntries.keys()).filter(key => !theirEntries.has(key))];
+  const entries: TranslationEntry[] = [];
+  keys.forEach(key => {
+    const baseEntry = baseEntries.get(key);
+    const ourEntry = ourEntries.get(key);
+    const theirEntry = theirEntries.get(key);
+    const picked = pick(baseEntry, ourEntry, theirEntry, entry => fingerprintEntry(entry));
+    if (picked === CONFLICT) {
+      const entry = (ourEntry ?? theirEntry)!;
+      conflicts.push({
+        kind: 'entry',
+        key: entry.msgid,
+        ...(entry.msgctxt !== undefined && { msgctxt: entry.msgctxt }),
+        ...(baseEntry && { base: baseEntry.msgstr }),
+        ...(ourEntry && { ours: ourEntry.msgstr }),
+        ...(theirEntry && { theirs: theirEntry.msgstr })
+      });
+      if (theirEntry) entries.push(theirEntry);
+    } else if (picked) {
+      entries.push(picked);
+    }
+  });
+
+  const headers: Record<string, string | undefined> = {};
+  const headerNames = new Set([...Object.keys(theirs.headers), ...Object.keys(ours.headers)]);
+  headerNames.forEach(name => {
+    const values = [base.headers[name], ours.headers[name], theirs.headers[name]] as const;
+    const picked = pick(...values, value => value);
+    if (picked === CONFLICT) {
+      conflicts.push({
+        kind: 'header',
+        key: name,
+        ...(values[0] !== undefined && { base: values[0] }),
+        ...(values[1] !== undefined && { ours: values[1] }),
+        ...(values[2] !== undefined && { theirs: values[2] })
+      });
+      headers[name] = values[2];
+    } else if (picked !== undefined) {
+      headers[name] = picked;
+    }
+  });
+
+  // Header comments and flags travel together, like the header entry itself
+  const comments = (catalog: POCatalog): POCatalog => ({ headers: {}, headerComments: catalog.headerComments ?? [], headerFlags: catalog.headerFlags ?? [], entries: [] });
+  let pickedComments = pick(comments(base), comments(ours), comments(theirs), catalog => fingerprintHeader(catalog));
+  if (pickedComments === CONFLICT) {
+    conflicts.push({
+      kind: 'header',
+      key: 'comments',
+      base: base.headerComments ?? [],
+      ours: ours.headerComments ?? [],
+      theirs: theirs.headerComments ?? []
+    });
+    pickedComments = comments(theirs);
+  }
+
+  return {
+    merged: {
+      headers,
+      headerComments: pickedComments?.headerComments ?? [],
+      headerFlags: pickedComments?.headerFlags ?? [],
+      entries,
+      ...(theirs.nplurals !== undefined && { nplurals: theirs.nplurals })
+    },
+    conflicts
+  };
+}
+
+const CONFLICT = Symbol('conflict');
+
+function pick<T>(base: T | undefined, ours: T | undefined, theirs: T | undefined, identity: (value: T) => string): T | undefined | typeof CONFLICT {
+  const id = (value: T | undefined): string | undefined => (value === undefined ? undefined : identity(value));
+  if (id(ours) === id(base)) return theirs;
+  if (id(theirs) === id(base) || id(theirs) === id(ours)) return ours;
+  return CONFLICT;
+}
+
+function indexEntries(entries: TranslationEntry[]): Map<string, TranslationEntry> {
+  return new Map(entries.map(entry => [layoutKey(entry), entry]));
+}
@@ -0,0 +1,45 @@
+import { maskPlaceholders } from './placeholders.js';
+
+export interface PseudoOptions {
+  accents?: boolean; // Default: true
+  expansion?: number; // Extra length as a fraction of the text, default: 0.3
+  markers?: boolean; // Default: true
+}
+
+const ACCENTS: Record<string, string> = {
+  a: 'å', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž'
+};
+
+// Character references would break if their letters were accented
+const ENTITY = /(&(?:#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);)/i;
+
+/**
+ * Pseudo-translates a string: "Save %s" becomes "[Šåṽé %s ~~]". Placeholders,
+ * tags and character references are kept as they are, and leading/trailing
+ * whitespace stays outside the markers so validation checks still pass.
+ */
+export function pseudolocalize(text: string, flags: string[] = [], options: PseudoOptions = {}): string {
+  const { accents = true, expansion = 0.3, markers = true } = options;
+  const [, leading = '', body = '', trailing = ''] = text.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? [];
+  if (body === '') return text;
+
+  const masked = maskPlaceholders(body, flags);
+  let visible = 0;
+  const transformed = masked.text.split(/(__PH\d+__)/).map(part => {
+    const mask = part.match(/^__PH(\d+)__$/);
+    if (mask) return masked.tokens[Number(mask[1])]!;
+    visible += part.length;
+    if (!accents) return part;
+    // Odd segments are the captured references
+    return part.split(ENTITY).map((segment, index) =>
+      index % 2 === 1 ? segment : Array.from(segment, char => ACCENTS[char] ?? char).join('')
+    ).join('');
+  }).join('');
+
+  const padding = '~'.repeat(Math.ceil(visible * expansion));
+  const expanded = padding ? `${transformed} ${padding}` : transformed;
+  return leading + (markers ? `[${expanded}]` : expanded) + trailing;
+}
@@ -0,0 +1,31 @@
+/**
+ * Levenshtein edit distance between two strings, using a single rolling row.
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Similarity ratio in [0, 1] derived from the edit distance. Returns 0 without
+ * computing the distance when the length difference alone rules out reaching
+ * minScore.
+ */
+export function similarity(a: string, b: string, minScore: number = 0): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  if (Math.min(a.length, b.length) / longest < minScore) return 0;
+  return 1 - levenshteinDistance(a, b) / longest;
+}
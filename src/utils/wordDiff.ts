@@ -0,0 +1,69 @@
+import { DiffSegment } from '../types/index.js';
+
+// Above this many token pairs the LCS table gets too large; fall back to a full replacement
+const MAX_CELLS = 1_000_000;
+
+/**
+ * Word-level diff from before to after. Words, runs of whitespace and
+ * single punctuation marks are the units; adjacent segments of the same
+ * type are merged.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_CELLS) {
+    return merge([{ type: 'delete', text: before }, { type: 'insert', text: after }]);
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j] ? lengths[i + 1]![j + 1]! + 1 : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'equal', text: a[i]! });
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      segments.push({ type: 'delete', text: a[i++]! });
+    } else {
+      segments.push({ type: 'insert', text: b[j++]! });
+    }
+  }
+  a.slice(i).forEach(text => segments.push({ type: 'delete', text }));
+  b.slice(j).forEach(text => segments.push({ type: 'insert', text }));
+  return merge(segments);
+}
+
+/**
+ * Renders a diff in wdiff notation: [-removed-] and {+added+}.
+ */
+export function formatDiff(segments: DiffSegment[]): string {
+  return segments
+    .map(segment => segment.type === 'equal' ? segment.text : segment.type === 'delete' ? `[-${segment.text}-]` : `{+${segment.text}+}`)
+    .join('');
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+function merge(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  segments.filter(segment => segment.text !== '').forEach(segment => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  });
+  return merged;
+}
@@ -0,0 +1,250 @@
+import { CatalogUnit, XliffVersion } from '../types/index.js';
+import { decodeXML, escapeXML, parseAttributes } from './xml.js';
+
+export type XliffState = CatalogUnit['state'];
+
+/**
+ * One gettext entry. Plural entries become a group of units, one per form,
+ * with msgid as the source of the first and msgid_plural of the others.
+ * The first unit also carries msgid_plural, since a catalog with one plural
+ * form has no other unit to take it from.
+ */
+export interface XliffUnit extends CatalogUnit {
+  developerNotes?: string[];
+  translatorNotes?: string[];
+  references?: string[];
+}
+
+export interface XliffDocument {
+  version: XliffVersion;
+  sourceLanguage: string;
+  targetLanguage?: string;
+  original?: string;
+  units: XliffUnit[];
+}
+
+const MSGCTXT_TYPES = ['x-gettext-msgctxt', 'x-po-msgctxt'];
+const MSGID_PLURAL_TYPE = 'x-gettext-msgid-plural';
+const PLURAL_GROUP_1_2 = 'x-gettext-plurals';
+const PLURAL_GROUP_2_0 = 'gettext:plurals';
+const FUZZY_SUBSTATE = 'gettext:needs-review-translation';
+
+/**
+ * Writes an XLIFF 1.2 or 2.0 document. Fuzzy entries are marked
+ * needs-review-translation (a subState in 2.0), untranslated ones get no
+ * target.
+ */
+export function serializeXliff(document: XliffDocument): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const original = document.original !== undefined ? ` original="${escapeXML(document.original)}"` : '';
+  const target = document.targetLanguage !== undefined ? escapeXML(document.targetLanguage) : undefined;
+
+  if (document.version === '1.2') {
+    lines.push(
+      '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+      `  <file${original} datatype="po" source-language="${escapeXML(document.sourceLanguage)}"${target !== undefined ? ` target-language="${target}"` : ''}>`,
+      '    <body>'
+    );
+    document.units.forEach((unit, index) => lines.push(...writeUnit12(unit, String(index + 1), '      ')));
+    lines.push('    </body>', '  </file>', '</xliff>', '');
+  } else {
+    lines.push(
+      `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${escapeXML(document.sourceLanguage)}"${target !== undefined ? ` trgLang="${target}"` : ''}>`,
+      `  <file id="f1"${original}>`
+    );
+    document.units.forEach((unit, index) => lines.push(...writeUnit20(unit, String(index + 1), '    ')));
+    lines.push('  </file>', '</xliff>', '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Reads units from an XLIFF 1.2 or 2.0 document. Inline markup inside
+ * source and target is reduced to its text; 2.0 units split into several
+ * segments are joined back together.
+ */
+export function parseXliff(content: string): XliffDocument {
+  const root = content.match(/<xliff\b([^>]*)>/);
+  if (!root) {
+    throw new Error('Not an XLIFF document: missing <xliff> element');
+  }
+  const rootAttributes = parseAttributes(root[1]!);
+  const version: XliffVersion = rootAttributes['version']?.startsWith('2') ? '2.0' : '1.2';
+  const fileAttributes = parseAttributes(content.match(/<file\b([^>]*)>/)?.[1] ?? '');
+  const sourceLanguage = version === '2.0' ? rootAttributes['srcLang'] : fileAttributes['source-language'];
+  const targetLanguage = version === '2.0' ? rootAttributes['trgLang'] : fileAttributes['target-language'];
+
+  const units: XliffUnit[] = [];
+  const unitTag = version === '2.0' ? 'unit' : 'trans-unit';
+  const unitPattern = new RegExp(`<${unitTag}\\b([^>]*)>([\\s\\S]*?)<\\/${unitTag}>`, 'g');
+  const readUnit = version === '2.0' ? readUnit20 : readUnit12;
+  // Innermost groups only; units of other groups are read one by one
+  const pattern = new RegExp(`<group\\b([^>]*)>((?:(?!<group\\b)[\\s\\S])*?)<\\/group>|<${unitTag}\\b([^>]*)>([\\s\\S]*?)<\\/${unitTag}>`, 'g');
+
+  for (const [, groupAttributes, groupBody, , unitBody] of content.matchAll(pattern)) {
+    if (unitBody !== undefined) {
+      units.push(readUnit(unitBody));
+      continue;
+    }
+    const members = Array.from(groupBody!.matchAll(unitPattern), match => readUnit(match[2]!));
+    const attributes = parseAttributes(groupAttributes!);
+    if (attributes['restype'] !== PLURAL_GROUP_1_2 && attributes['type'] !== PLURAL_GROUP_2_0) {
+      units.push(...members);
+      continue;
+    }
+    const [first, second] = members;
+    if (!first) continue;
+    const targets = members.map(member => member.targets[0] ?? '');
+    const state: XliffState = targets.every(text => text === '') ? 'new'
+      : members.some(member => member.state !== 'translated') ? 'fuzzy'
+      : 'translated';
+    const msgidPlural = first.msgidPlural ?? second?.msgid;
+    units.push({
+      ...first,
+      ...(msgidPlural !== undefined && { msgidPlural }),
+      targets,
+      state
+    });
+  }
+
+  return {
+    version,
+    sourceLanguage: sourceLanguage ?? 'en',
+    ...(targetLanguage !== undefined && { targetLanguage }),
+    ...(fileAttributes['original'] !== undefined && { original: fileAttributes['original'] }),
+    units
+  };
+}
+
+function writeUnit12(unit: XliffUnit, id: string, indent: string): string[] {
+  if (unit.msgidPlural === undefined) {
+    return writeTransUnit(unit, unit.msgid, unit.targets[0] ?? '', id, indent, true);
+  }
+  const sources = unit.targets.map((_, form) => form === 0 ? unit.msgid : unit.msgidPlural!);
+  return [
+    `${indent}<group id="${id}" restype="${PLURAL_GROUP_1_2}">`,
+    ...sources.flatMap((source, form) => writeTransUnit(unit, source, unit.targets[form] ?? '', `${id}-${form}`, `${indent}  `, form === 0)),
+    `${indent}</group>`
+  ];
+}
+
+function writeTransUnit(unit: XliffUnit, source: string, target: string, id: string, indent: string, withMetadata: boolean): string[] {
+  const lines = [
+    `${indent}<trans-unit id="${id}" xml:space="preserve">`,
+    `${indent}  <source>${escapeXML(source)}</source>`
+  ];
+  if (target !== '') {
+    lines.push(`${indent}  <target state="${unit.state === 'fuzzy' ? 'needs-review-translation' : 'translated'}">${escapeXML(target)}</target>`);
+  }
+  if (withMetadata) {
+    if (unit.msgctxt !== undefined) {
+      lines.push(`${indent}  <context-group purpose="information"><context context-type="${MSGCTXT_TYPES[0]}">${escapeXML(unit.msgctxt)}</context></context-group>`);
+    }
+    if (unit.msgidPlural !== undefined) {
+      lines.push(`${indent}  <context-group purpose="information"><context context-type="${MSGID_PLURAL_TYPE}">${escapeXML(unit.msgidPlural)}</context></context-group>`);
+    }
+    (unit.references ?? []).forEach(reference => {
+      const [file, line] = splitReference(reference);
+      lines.push(`${indent}  <context-group purpose="location"><context context-type="sourcefile">${escapeXML(file)}</context>` +
+        (line !== undefined ? `<context context-type="linenumber">${line}</context>` : '') + '</context-group>');
+    });
+    (unit.developerNotes ?? []).forEach(note => lines.push(`${indent}  <note from="developer">${escapeXML(note)}</note>`));
+    (unit.translatorNotes ?? []).forEach(note => lines.push(`${indent}  <note from="translator">${escapeXML(note)}</note>`));
+  }
+  lines.push(`${indent}</trans-unit>`);
+  return lines;
+}
+
+function writeUnit20(unit: XliffUnit, id: string, indent: string): string[] {
+  if (unit.msgidPlural === undefined) {
+    return writeUnit(unit, unit.msgid, unit.targets[0] ?? '', id, indent, true);
+  }
+  const sources = unit.targets.map((_, form) => form === 0 ? unit.msgid : unit.msgidPlural!);
+  return [
+    `${indent}<group id="${id}" type="${PLURAL_GROUP_2_0}">`,
+    ...sources.flatMap((source, form) => writeUnit(unit, source, unit.targets[form] ?? '', `${id}-${form}`, `${indent}  `, form === 0)),
+    `${indent}</group>`
+  ];
+}
+
+function writeUnit(unit: XliffUnit, source: string, target: string, id: string, indent: string, withMetadata: boolean): string[] {
+  const notes = withMetadata ? [
+    ...(unit.msgctxt !== undefined ? [`<note category="${MSGCTXT_TYPES[0]}">${escapeXML(unit.msgctxt)}</note>`] : []),
+    ...(unit.msgidPlural !== undefined ? [`<note category="${MSGID_PLURAL_TYPE}">${escapeXML(unit.msgidPlural)}</note>`] : []),
+    ...(unit.references ?? []).map(reference => `<note category="location">${escapeXML(reference)}</note>`),
+    ...(unit.developerNotes ?? []).map(note => `<note category="developer">${escapeXML(note)}</note>`),
+    ...(unit.translatorNotes ?? []).map(note => `<note category="translator">${escapeXML(note)}</note>`)
+  ] : [];
+  const state = target === '' ? 'state="initial"'
+    : unit.state === 'fuzzy' ? `state="translated" subState="${FUZZY_SUBSTATE}"`
+    : 'state="final"';
+
+  return [
+    `${indent}<unit id="${id}" xml:space="preserve">`,
+    ...(notes.length > 0 ? [`${indent}  <notes>`, ...notes.map(note => `${indent}    ${note}`), `${indent}  </notes>`] : []),
+    `${indent}  <segment ${state}>`,
+    `${indent}    <source>${escapeXML(source)}</source>`,
+    ...(target !== '' ? [`${indent}    <target>${escapeXML(target)}</target>`] : []),
+    `${indent}  </segment>`,
+    `${indent}</unit>`
+  ];
+}
+
+function readUnit12(body: string): XliffUnit {
+  const content = body.replace(/<alt-trans\b[\s\S]*?<\/alt-trans>/g, '');
+  const msgid = decodeXML(content.match(/<source\b[^>]*>([\s\S]*?)<\/source>/)?.[1] ?? '');
+  const target = content.match(/<target\b([^>]*)>([\s\S]*?)<\/target>/);
+  const targetText = target ? decodeXML(target[2]!) : '';
+  const state = parseAttributes(target?.[1] ?? '')['state'];
+
+  let msgctxt: string | undefined;
+  let msgidPlural: string | undefined;
+  for (const [, attributes, value] of content.matchAll(/<context\s([^>]*)>([\s\S]*?)<\/context>/g)) {
+    const type = parseAttributes(attributes!)['context-type'] ?? '';
+    if (MSGCTXT_TYPES.includes(type)) msgctxt = decodeXML(value!);
+    if (type === MSGID_PLURAL_TYPE) msgidPlural = decodeXML(value!);
+  }
+
+  return {
+    msgid,
+    ...(msgctxt !== undefined && { msgctxt }),
+    ...(msgidPlural !== undefined && { msgidPlural }),
+    targets: [targetText],
+    state: targetText === '' ? 'new'
+      : state === undefined || ['translated', 'signed-off', 'final'].includes(state) ? 'translated'
+      : 'fuzzy'
+  };
+}
+
+function readUnit20(body: string): XliffUnit {
+  let msgctxt: string | undefined;
+  let msgidPlural: string | undefined;
+  for (const [, attributes, value] of body.matchAll(/<note\b([^>]*)>([\s\S]*?)<\/note>/g)) {
+    const category = parseAttributes(attributes!)['category'] ?? '';
+    if (MSGCTXT_TYPES.includes(category)) msgctxt = decodeXML(value!);
+    if (category === MSGID_PLURAL_TYPE) msgidPlural = decodeXML(value!);
+  }
+
+  let source = '';
+  let target = '';
+  let reviewed = true;
+  for (const [, tag, attributes, segment] of body.matchAll(/<(segment|ignorable)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+    source += decodeXML(segment!.match(/<source\b[^>]*>([\s\S]*?)<\/source>/)?.[1] ?? '');
+    target += decodeXML(segment!.match(/<target\b[^>]*>([\s\S]*?)<\/target>/)?.[1] ?? '');
+    const { state, subState } = parseAttributes(attributes!);
+    if (tag === 'segment' && (state === 'initial' || subState?.includes('needs-review'))) reviewed = false;
+  }
+
+  return {
+    msgid: source,
+    ...(msgctxt !== undefined && { msgctxt }),
+    ...(msgidPlural !== undefined && { msgidPlural }),
+    targets: [target],
+    state: target === '' ? 'new' : reviewed ? 'translated' : 'fuzzy'
+  };
+}
+
+function splitReference(reference: string): [string, string?] {
+  const match = reference.match(/^(.*):(\d+)$/);
+  return match ? [match[1]!, match[2]!] : [reference];
+}
@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile, readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { TranslationService } from '../src/services/TranslationService.js';
+import { fixturePath, withDirectory, withEnv } from './helpers.js';
+
+test('an unknown id is a not_found item, not a failed batch', () => withDirectory(directory => withEnv({ TRANSLATE_PO_JOURNAL: path.join(directory, 'journal.jsonl') }, async () => {
+  const filePath = path.join(directory, 'de.po');
+  await copyFile(fixturePath('po/gettext.po'), filePath);
+  const translationService = new TranslationService();
+  await translationService.loadSingleFile(filePath);
+
+  const result = await translationService.updateMultipleTranslations([
+    { id: 'unknown', msgstr: 'Unbekannt' },
+    { filePath, msgid: 'Example', msgstr: 'Beispiel' }
+  ]);
+
+  assert.equal(result.committed, false);
+  assert.deepEqual(result.results.map(item => [item.id, item.msgid, item.status]), [['unknown', undefined, 'not_found'], [undefined, 'Example', 'skipped']]);
+  assert.equal(await readFile(filePath, 'utf-8'), await readFile(fixturePath('po/gettext.po'), 'utf-8'));
+})));
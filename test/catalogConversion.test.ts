@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { TranslationService } from '../src/services/TranslationService.js';
+import { withDirectory, withEnv } from './helpers.js';
+
+const CATALOG = `msgid ""
+msgstr ""
+"Language: de\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+msgid "Saved"
+msgstr "Gespeichert"
+
+msgid "Saved. Reload?"
+msgstr "Gespeichert. Neu laden?"
+`;
+
+test('i18next keys containing dots are exported flat and import back', () => withDirectory(directory => withEnv({ TRANSLATE_PO_JOURNAL: path.join(directory, 'journal.jsonl') }, async () => {
+  const filePath = path.join(directory, 'de.po');
+  const outputPath = path.join(directory, 'de.json');
+  await writeFile(filePath, CATALOG);
+  const translationService = new TranslationService();
+  await translationService.loadSingleFile(filePath);
+
+  await translationService.exportCatalog({ filePath, format: 'i18next', outputPath });
+  assert.deepEqual(JSON.parse(await readFile(outputPath, 'utf-8')), {
+    'Saved': 'Gespeichert',
+    'Saved. Reload?': 'Gespeichert. Neu laden?'
+  });
+
+  const result = await translationService.importCatalog({ path: outputPath, filePath, format: 'i18next' });
+  assert.deepEqual(result.unmatched, []);
+  assert.deepEqual(result.changed, []);
+  assert.equal(result.unchanged, 2);
+})));
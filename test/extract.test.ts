@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractMessages, parseKeyword, DEFAULT_KEYWORDS } from '../src/utils/extract.js';
+
+const keywords = DEFAULT_KEYWORDS.map(parseKeyword);
+const msgids = (content: string, jsx?: boolean): string[] =>
+  extractMessages(content, 'javascript', keywords, undefined, jsx).messages.map(message => message.msgid);
+
+test('an apostrophe in JSX text does not open a string', () => {
+  assert.deepEqual(msgids("const a = <p>Don't {_('JSX')}</p>;\nconst b = _('After');"), ['JSX', 'After']);
+});
+
+test('JSX attributes, nested elements and fragments are tokenized', () => {
+  const content = [
+    'return (',
+    "  <>",
+    "    <Button title={_('Save')} label=\"It's\" onClick={() => save({ force: true })} />",
+    "    <div className='x'>",
+    '      {/* TRANSLATORS: shown after saving */}',
+    "      <span>Isn't it {pgettext('status', 'Saved')}</span>",
+    '    </div>',
+    '  </>',
+    ");",
+    "_('Outside');"
+  ].join('\n');
+  const { messages } = extractMessages(content, 'javascript', keywords);
+  assert.deepEqual(messages.map(message => [message.msgid, message.line]), [['Save', 3], ['Saved', 6], ['Outside', 10]]);
+  assert.deepEqual(messages[1]!.comments, ['TRANSLATORS: shown after saving']);
+});
+
+test('comparisons and generic arrow functions are not JSX', () => {
+  assert.deepEqual(msgids("if (a <b) x = _('Less');\nconst f = <T,>(x: T) => _('Generic');"), ['Less', 'Generic']);
+  assert.deepEqual(msgids("const f = <T>(x: T): string => _('Typed');", false), ['Typed']);
+});
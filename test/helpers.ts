@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Compiled tests live in dist-test/test, the fixtures next to the sources
+const FIXTURES = new URL('../../test/fixtures/', import.meta.url);
+
+export function fixturePath(name: string): string {
+  return fileURLToPath(new URL(name, FIXTURES));
+}
+
+export function readFixture(name: string): string {
+  return readFileSync(fixturePath(name), 'utf-8');
+}
+
+/**
+ * The lines that differ between two texts once their common first and last
+ * lines are set aside.
+ */
+export function changedLines(before: string, after: string): { removed: string[]; added: string[] } {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  return { removed: a.slice(start, a.length - end), added: b.slice(start, b.length - end) };
+}
+
+/**
+ * Runs with environment variables set (or removed, for undefined) and puts
+ * them back afterwards. Services read their settings when constructed.
+ */
+export async function withEnv(variables: Record<string, string | undefined>, run: () => Promise<void>): Promise<void> {
+  const previous = Object.fromEntries(Object.keys(variables).map(name => [name, process.env[name]]));
+  const apply = (values: Record<string, string | undefined>): void => Object.entries(values).forEach(([name, value]) => {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  });
+  apply(variables);
+  try {
+    await run();
+  } finally {
+    apply(previous);
+  }
+}
+
+/**
+ * Runs with a new temporary directory, removed afterwards.
+ */
+export async function withDirectory(run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(path.join(tmpdir(), 'translate-po-test-'));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
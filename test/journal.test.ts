@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile, readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { ChangeJournalService } from '../src/services/ChangeJournalService.js';
+import { TranslationService } from '../src/services/TranslationService.js';
+import { parsePO } from '../src/utils/poFormat.js';
+import { fixturePath, withDirectory, withEnv } from './helpers.js';
+
+const change = (msgid: string): Parameters<ChangeJournalService['record']>[0][number] => ({
+  file: '/catalog.po',
+  msgid,
+  oldMsgstr: '',
+  newMsgstr: msgid,
+  oldFlags: [],
+  newFlags: []
+});
+
+test('servers sharing a journal file hand out distinct ids and batches', () => withDirectory(async directory => {
+  const journalPath = path.join(directory, 'journal.jsonl');
+  const first = new ChangeJournalService(journalPath);
+  const second = new ChangeJournalService(journalPath);
+  await first.list();
+  await second.list();
+
+  const recorded = await Promise.all([
+    first.record([change('a'), change('b')], 'edit'),
+    second.record([change('c')], 'edit'),
+    first.record([change('d')], 'edit')
+  ]);
+  const ids = recorded.flat().map(entry => entry.id);
+  assert.equal(new Set(ids).size, 4);
+  assert.equal(new Set(recorded.map(batch => batch[0]!.batch)).size, 3);
+
+  await second.markReverted([recorded[0]![0]!.id]);
+  assert.equal((await first.get(recorded[0]![0]!.id)).reverted, true);
+  assert.deepEqual((await first.list()).map(entry => entry.id).sort(), [...ids].sort());
+}));
+
+test('undoing two edits of the same entry restores the first value', () => withDirectory(directory => withEnv({ TRANSLATE_PO_JOURNAL: path.join(directory, 'journal.jsonl') }, async () => {
+  const filePath = path.join(directory, 'de.po');
+  await copyFile(fixturePath('po/gettext.po'), filePath);
+  const translationService = new TranslationService();
+  await translationService.loadSingleFile(filePath);
+
+  await translationService.updateTranslation({ filePath, msgid: 'Example', msgstr: 'Beispiel 1' });
+  await translationService.updateTranslation({ filePath, msgid: 'Example', msgstr: 'Beispiel 2' });
+  const result = await translationService.undoLastChanges(2);
+
+  assert.equal(result.reverted.length, 2);
+  assert.deepEqual(result.skipped, []);
+  // Saving stamps PO-Revision-Date, so compare the entries rather than the whole file
+  const entries = async (file: string): Promise<unknown> => parsePO(await readFile(file, 'utf-8')).entries;
+  assert.deepEqual(await entries(filePath), await entries(fixturePath('po/gettext.po')));
+})));
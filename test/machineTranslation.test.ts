@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { TranslationService } from '../src/services/TranslationService.js';
+import { MachineTranslationService } from '../src/services/MachineTranslationService.js';
+import { fixturePath, withDirectory, withEnv } from './helpers.js';
+
+test('there is no default provider without configuration', () => {
+  assert.throws(() => new MachineTranslationService().getProvider(), /No machine translation provider configured/);
+  assert.equal(new MachineTranslationService().getProvider('pseudo').name, 'pseudo');
+  assert.equal(new MachineTranslationService({ url: 'http://localhost:1' }).getProvider().name, 'http');
+});
+
+test('the pseudo provider fills untranslated entries and marks results fuzzy', () => withDirectory(directory => withEnv({ TRANSLATE_PO_JOURNAL: 'off', TRANSLATE_PO_MT_PROVIDER: undefined, TRANSLATE_PO_MT_URL: undefined }, async () => {
+  const filePath = path.join(directory, 'fr.po');
+  await copyFile(fixturePath('po/crlf.po'), filePath);
+  const translationService = new TranslationService();
+  await translationService.loadSingleFile(filePath);
+
+  await assert.rejects(translationService.machineTranslate({ filePath }), /No machine translation provider configured/);
+  const report = await translationService.machineTranslate({ filePath, provider: 'pseudo' });
+  assert.deepEqual(report.translated, [{ file: filePath, msgid: 'Goodbye', msgstr: '[fr] Goodbye' }]);
+  const [entry] = translationService.searchTranslations({ filePath, query: 'Goodbye', searchIn: 'msgid' });
+  assert.deepEqual(entry!.entry.flags, ['fuzzy']);
+})));
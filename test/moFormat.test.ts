@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { POFileService } from '../src/services/POFileService.js';
+import { MOCompilerService } from '../src/services/MOCompilerService.js';
+import { compileMO, decompileMO, toMOMessage } from '../src/utils/moFormat.js';
+import { TranslationEntry } from '../src/types/index.js';
+import { fixturePath, withDirectory } from './helpers.js';
+
+/**
+ * Looks a key up the way gettext does: hashpjw over the msgid part of the
+ * key, then double hashing through the table.
+ */
+function lookup(buffer: Buffer, key: string): number | undefined {
+  const bytes = Buffer.from(key.split('\0')[0]!, 'utf-8');
+  let hash = 0;
+  for (const byte of bytes) {
+    hash = ((hash << 4) + byte) >>> 0;
+    const high = hash & 0xf0000000;
+    if (high !== 0) hash = ((hash ^ (high >>> 24)) ^ high) >>> 0;
+  }
+  const size = buffer.readUInt32LE(20);
+  const offset = buffer.readUInt32LE(24);
+  const originals = buffer.readUInt32LE(12);
+  let slot = hash % size;
+  const increment = 1 + (hash % (size - 2));
+  for (;;) {
+    const index = buffer.readUInt32LE(offset + slot * 4);
+    if (index === 0) return undefined;
+    const length = buffer.readUInt32LE(originals + (index - 1) * 8);
+    const start = buffer.readUInt32LE(originals + (index - 1) * 8 + 4);
+    if (buffer.toString('utf-8', start, start + length) === key) return index - 1;
+    slot = (slot + increment) % size;
+  }
+}
+
+const ENTRIES: TranslationEntry[] = [
+  { msgid: 'Open', msgstr: 'Öffnen' },
+  { msgid: 'Open', msgctxt: 'menu', msgstr: 'Öffnen…' },
+  { msgid: 'One file', msgid_plural: '%d files', msgstr: ['Eine Datei', '%d Dateien'] },
+  { msgid: 'Line one\nLine two', msgstr: 'Zeile eins\nZeile zwei' }
+];
+
+test('compileMO and decompileMO round-trip plurals and msgctxt', () => {
+  const mo = compileMO([{ key: '', value: 'Language: de\nPlural-Forms: nplurals=2; plural=(n != 1);\n' }, ...ENTRIES.map(toMOMessage)]);
+  const decompiled = decompileMO(mo);
+  assert.deepEqual(decompiled.headers, { 'Language': 'de', 'Plural-Forms': 'nplurals=2; plural=(n != 1);' });
+  const sortKey = (entry: TranslationEntry): string => toMOMessage(entry).key;
+  assert.deepEqual(
+    decompiled.entries.map(sortKey).sort(),
+    ENTRIES.map(sortKey).sort()
+  );
+  ENTRIES.forEach(entry => {
+    assert.deepEqual(decompiled.entries.find(candidate => sortKey(candidate) === sortKey(entry)), entry);
+  });
+});
+
+test('every message can be found through the hash table', () => {
+  // Enough messages to force collisions in the table
+  const entries: TranslationEntry[] = Array.from({ length: 200 }, (_, index) => ({ msgid: `Message ${index}`, msgstr: `Nachricht ${index}` }));
+  const messages = [{ key: '', value: 'Language: de\n' }, ...[...ENTRIES, ...entries].map(toMOMessage)];
+  const mo = compileMO(messages);
+  messages.forEach(message => assert.notEqual(lookup(mo, message.key), undefined, `${JSON.stringify(message.key)} is in the hash table`));
+  assert.equal(lookup(mo, 'Not a message'), undefined);
+});
+
+test('compile writes translated messages and reports them without the header', () => withDirectory(async directory => {
+  const poFileService = new POFileService();
+  await poFileService.loadPOFile(fixturePath('po/gettext.po'));
+  const output = path.join(directory, 'de.mo');
+  const [report] = await new MOCompilerService(poFileService).compile({ outputPath: output });
+
+  assert.deepEqual(report, {
+    source: fixturePath('po/gettext.po'),
+    output,
+    messages: 4,
+    skippedFuzzy: 2,
+    skippedUntranslated: 1,
+    skippedObsolete: 2
+  });
+  const decompiled = decompileMO(await readFile(output));
+  assert.equal(decompiled.entries.length, report!.messages);
+  assert.equal(decompiled.headers['Plural-Forms'], 'nplurals=2; plural=(n != 1);');
+  assert.deepEqual(decompiled.entries.find(entry => entry.msgctxt === 'menu'), { msgid: 'Open', msgctxt: 'menu', msgstr: 'Öffnen' });
+}));
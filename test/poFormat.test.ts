@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePO, serializePO, layoutKey } from '../src/utils/poFormat.js';
+import { readFixture, changedLines } from './helpers.js';
+
+const FIXTURES = ['po/gettext.po', 'po/crlf.po', 'po/no-header.po'];
+
+for (const name of FIXTURES) {
+  test(`${name}: parse and serialize is byte-identical`, () => {
+    const content = readFixture(name);
+    const parsed = parsePO(content);
+    assert.equal(serializePO(parsed, parsed.layout), content);
+  });
+
+  test(`${name}: editing one entry rewrites only that entry`, () => {
+    const content = readFixture(name);
+    const parsed = parsePO(content);
+    // The last one, so entries before and after it are checked as well
+    const entry = [...parsed.entries].reverse().find(candidate => !candidate.obsolete && !Array.isArray(candidate.msgstr));
+    assert.ok(entry);
+    const original = parsed.layout.entries.get(layoutKey(entry))!.lines.join('\n');
+    entry.msgstr = 'Edited translation';
+
+    const { removed, added } = changedLines(content, serializePO(parsed, parsed.layout));
+    assert.ok(removed.length > 0);
+    assert.ok(original.includes(removed.join('\n')), 'only lines of the edited entry change');
+    assert.ok(added.some(line => line.includes('"Edited translation"')));
+    if (parsed.layout.eol === '\r\n') {
+      assert.ok(added.every(line => line.endsWith('\r')), 'the rewritten entry keeps CRLF line endings');
+    }
+  });
+}
+
+test('gettext fields are parsed', () => {
+  const parsed = parsePO(readFixture('po/gettext.po'));
+  assert.equal(parsed.headers['Language'], 'de');
+  assert.deepEqual(parsed.headerComments.slice(0, 1), ['German translations for the Example project.']);
+
+  const byId = new Map(parsed.entries.map(entry => [layoutKey(entry), entry]));
+  const title = byId.get('Example')!;
+  assert.deepEqual(title.translatorComments, ['Keep this short, it is shown in the title bar.']);
+  assert.deepEqual(title.comments, ['TRANSLATORS: application name in the window title']);
+  assert.deepEqual(title.references, ['src/app.py:12', 'src/window.py:40']);
+
+  assert.deepEqual(byId.get('%(count)d file was deleted')!.msgstr, ['%(count)d Datei wurde gelöscht', '%(count)d Dateien wurden gelöscht']);
+  assert.equal(byId.get('menu\u0004Open')!.msgstr, 'Öffnen');
+  assert.match(byId.get('Changes to the synchronisation settings take effect the next time the application is started. Unsaved documents are not affected.')!.msgstr as string, /^Änderungen .* betroffen\.$/);
+
+  const save = byId.get('toolbar\u0004Save %d item')!;
+  assert.equal(save.previousMsgctxt, 'button');
+  assert.equal(save.previousMsgid, 'Save %s');
+  assert.equal(save.previousMsgidPlural, 'Save all %s');
+
+  const removed = byId.get('~Removed options')!;
+  assert.equal(removed.obsolete, true);
+  assert.equal(removed.previousMsgid, 'Removed option');
+});
+
+test('a catalog without a header is written without one', () => {
+  const parsed = parsePO(readFixture('po/no-header.po'));
+  assert.deepEqual(parsed.headers, {});
+  assert.equal(parsed.entries.length, 3);
+  parsed.entries[1]!.msgstr = 'Fini';
+  assert.ok(serializePO(parsed, parsed.layout).startsWith('#: lib/strings.c:4\n'));
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { TranslationService } from '../src/services/TranslationService.js';
+import { parsePO } from '../src/utils/poFormat.js';
+import { fixturePath, withDirectory, withEnv } from './helpers.js';
+
+const TEMPLATE = `msgid ""
+msgstr ""
+"POT-Creation-Date: 2024-05-01 12:00+0000\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+
+#: src/app.py:12
+msgid "Example"
+msgstr ""
+
+#: src/files.py:88
+#, python-format
+msgid "%(count)d file was deleted"
+msgid_plural "%(count)d files were removed"
+msgstr[0] ""
+msgstr[1] ""
+`;
+
+function withCatalog(run: (translationService: TranslationService, filePath: string, potPath: string) => Promise<void>): Promise<void> {
+  return withDirectory(directory => withEnv({ TRANSLATE_PO_JOURNAL: path.join(directory, 'journal.jsonl') }, async () => {
+    const filePath = path.join(directory, 'de', 'messages.po');
+    const potPath = path.join(directory, 'messages.pot');
+    await mkdir(path.dirname(filePath));
+    await copyFile(fixturePath('po/gettext.po'), filePath);
+    await writeFile(potPath, TEMPLATE);
+    const translationService = new TranslationService();
+    await translationService.loadSingleFile(filePath);
+    await run(translationService, filePath, potPath);
+  }));
+}
+
+test('a changed msgid_plural keeps the translation as fuzzy', () => withCatalog(async (translationService, filePath, potPath) => {
+  await translationService.mergePot({ potPath, poFiles: [filePath] });
+
+  const entry = parsePO(await readFile(filePath, 'utf-8')).entries.find(candidate => candidate.msgid === '%(count)d file was deleted');
+  assert.equal(entry?.msgid_plural, '%(count)d files were removed');
+  assert.deepEqual(entry?.msgstr, ['%(count)d Datei wurde gelöscht', '%(count)d Dateien wurden gelöscht']);
+  assert.deepEqual(entry?.flags, ['fuzzy', 'python-format']);
+  assert.equal(entry?.previousMsgid, '%(count)d file was deleted');
+  assert.equal(entry?.previousMsgidPlural, '%(count)d files were deleted');
+}));
+
+test('a merge that cannot be saved leaves the catalog as it was', () => withCatalog(async (translationService, filePath, potPath) => {
+  const [poFile] = translationService.getLoadedPOFiles({ filePath });
+  const before = structuredClone({ entries: poFile!.entries, headers: poFile!.headers });
+  await rm(path.dirname(filePath), { recursive: true });
+
+  await assert.rejects(translationService.mergePot({ potPath, poFiles: [filePath] }));
+  assert.deepEqual({ entries: poFile!.entries, headers: poFile!.headers }, before);
+}));
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile, mkdir } from 'node:fs/promises';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { CallToolResultSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { fixturePath, withDirectory } from './helpers.js';
+
+// The compiled server, next to the compiled tests
+const SERVER = fileURLToPath(new URL('../src/index.js', import.meta.url));
+
+/**
+ * Runs against a server process started over stdio, with its journal in a
+ * temporary directory that is also passed to the test.
+ */
+function withServer(run: (client: Client, directory: string) => Promise<void>): Promise<void> {
+  return withDirectory(async directory => {
+    const client = new Client({ name: 'translate-po-test', version: '1.0.0' });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: [SERVER],
+      env: { ...getDefaultEnvironment(), TRANSLATE_PO_JOURNAL: path.join(directory, 'journal.jsonl') }
+    }));
+    try {
+      await run(client, directory);
+    } finally {
+      await client.close();
+    }
+  });
+}
+
+async function callTool(client: Client, name: string, args: Record<string, unknown>): Promise<string> {
+  const result = CallToolResultSchema.parse(await client.callTool({ name, arguments: args }));
+  return result.content.map(item => item.type === 'text' ? item.text : '').join('\n');
+}
+
+test('get_loaded_files lists each catalog with its language and domain', () => withServer(async (client, directory) => {
+  const filePath = path.join(directory, 'de', 'LC_MESSAGES', 'messages.po');
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await copyFile(fixturePath('po/gettext.po'), filePath);
+  await callTool(client, 'load_po_file', { filePath });
+
+  const output = await callTool(client, 'get_loaded_files', {});
+  const [heading, ...lines] = output.split('\n');
+  assert.equal(heading, 'Loaded files (1):');
+  assert.equal(lines.length, 1);
+  assert.match(lines[0]!, /messages\.po \[language: de, domain: messages, entries: \d+\]$/);
+}));
+
+test('subscribers to a catalog resource are told when it is saved', () => withServer(async (client, directory) => {
+  assert.deepEqual(client.getServerCapabilities()?.resources, { subscribe: true, listChanged: true });
+
+  const filePath = path.join(directory, 'de.po');
+  await copyFile(fixturePath('po/gettext.po'), filePath);
+  await callTool(client, 'load_po_file', { filePath });
+  const { resources } = await client.listResources();
+  const stats = resources.find(resource => resource.uri.endsWith('/stats'))!.uri;
+  await client.subscribeResource({ uri: stats });
+
+  const updated = new Promise<string>(resolve => client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri)));
+  await callTool(client, 'update_translation', { filePath, msgid: 'Example', msgstr: 'Beispielprogramm' });
+  assert.equal(await updated, stats);
+}));
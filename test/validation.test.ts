@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationService } from '../src/services/ValidationService.js';
+import { TranslationEntry } from '../src/types/index.js';
+
+const validation = new ValidationService();
+const placeholderIssues = (entry: TranslationEntry, msgstr: string): string[] =>
+  validation.validate(entry, msgstr, ['placeholders']).map(issue => issue.message);
+
+test('positional directives may reorder the arguments', () => {
+  const entry: TranslationEntry = { msgid: '%s of %s', msgstr: '', flags: ['c-format'] };
+  assert.deepEqual(placeholderIssues(entry, '%2$s von %1$s'), []);
+  assert.deepEqual(placeholderIssues(entry, '%1$s von %2$s'), []);
+  assert.equal(placeholderIssues(entry, '%2$s von %2$s').length, 1);
+  assert.equal(placeholderIssues(entry, '%2$d von %1$s').length, 1);
+});
+
+test('brace fields may reorder the arguments', () => {
+  const entry: TranslationEntry = { msgid: '{} of {}', msgstr: '', flags: ['python-brace-format'] };
+  assert.deepEqual(placeholderIssues(entry, '{1} von {0}'), []);
+  assert.equal(placeholderIssues(entry, '{0} von {0}').length, 1);
+});
+
+test('missing and unexpected placeholders are reported as written', () => {
+  const entry: TranslationEntry = { msgid: 'Deleted %d files in %s', msgstr: '', flags: ['c-format'] };
+  const [message] = placeholderIssues(entry, '%d Dateien gelöscht');
+  assert.match(message!, /missing placeholder %s/);
+});
+
+test('python-format has no positional directives', () => {
+  const entry: TranslationEntry = { msgid: '%s of %s', msgstr: '', flags: ['python-format'] };
+  assert.deepEqual(placeholderIssues(entry, '%s von %s'), []);
+  assert.equal(placeholderIssues(entry, '%2$s von %1$s').length, 1);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFile, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { TranslationService } from '../src/services/TranslationService.js';
+import { parsePO } from '../src/utils/poFormat.js';
+import { XliffVersion } from '../src/types/index.js';
+import { fixturePath, withDirectory, withEnv } from './helpers.js';
+
+for (const version of ['1.2', '2.0'] as XliffVersion[]) {
+  test(`XLIFF ${version} plurals of a one-form catalog import back`, () => withDirectory(directory => withEnv({ TRANSLATE_PO_JOURNAL: path.join(directory, 'journal.jsonl') }, async () => {
+    const filePath = path.join(directory, 'ja.po');
+    const xliffPath = path.join(directory, 'ja.xlf');
+    await copyFile(fixturePath('po/ja.po'), filePath);
+    const translationService = new TranslationService();
+    await translationService.loadSingleFile(filePath);
+    await translationService.exportXliff({ filePath, outputPath: xliffPath, version });
+
+    const exported = await readFile(xliffPath, 'utf-8');
+    await writeFile(xliffPath, exported.replace('個のファイルを削除しました', '個のファイルを消去しました'));
+    const result = await translationService.importXliff({ xliffPath, filePath });
+
+    assert.deepEqual(result.changed, []);
+    assert.deepEqual(result.unmatched, []);
+    assert.equal(result.updated, 1);
+    const entry = parsePO(await readFile(filePath, 'utf-8')).entries.find(candidate => candidate.msgid === '%(count)d file was deleted');
+    assert.deepEqual(entry?.msgstr, ['%(count)d 個のファイルを消去しました']);
+  })));
+}